@@ -10,13 +10,26 @@ import SearchScreen from './src/screens/SearchScreen';
 import VideoDetailScreen from './src/screens/VideoDetailScreen';
 import ScriptPracticeScreen from './src/screens/ScriptPracticeScreen';
 import HistoryScreen from './src/screens/HistoryScreen';
+import ReviewScreen from './src/screens/ReviewScreen';
+import VocabularyScreen from './src/screens/VocabularyScreen';
+import TextPracticeScreen from './src/screens/TextPracticeScreen';
+import CoursesScreen from './src/screens/CoursesScreen';
+import CourseScreen from './src/screens/CourseScreen';
+import AuthScreen from './src/screens/AuthScreen';
+import type { MediaSource } from './src/services/mediaSourceService';
 
 export type RootStackParamList = {
   Home: undefined;
   Search: undefined;
   History: undefined;
   VideoDetail: { videoId: string; videoTitle: string; fromHistory?: boolean };
-  ScriptPractice: { videoId: string; videoTitle: string };
+  ScriptPractice: { videoId: string; videoTitle: string; mediaSource?: MediaSource; courseId?: string }; // mediaSource defaults to the YouTube video
+  Review: undefined;
+  Vocabulary: undefined;
+  TextPractice: undefined;
+  Courses: undefined;
+  Course: { courseId: string };
+  Auth: { mode: 'signIn' | 'signUp' };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -62,6 +75,36 @@ export default function App() {
             component={ScriptPracticeScreen}
             options={{ title: 'Practice Script' }}
           />
+          <Stack.Screen 
+            name="Review" 
+            component={ReviewScreen}
+            options={{ title: 'Review' }}
+          />
+          <Stack.Screen 
+            name="Vocabulary" 
+            component={VocabularyScreen}
+            options={{ title: 'Vocabulary' }}
+          />
+          <Stack.Screen 
+            name="TextPractice" 
+            component={TextPracticeScreen}
+            options={{ title: 'Practice My Text' }}
+          />
+          <Stack.Screen 
+            name="Courses" 
+            component={CoursesScreen}
+            options={{ title: 'Courses & Playlists' }}
+          />
+          <Stack.Screen 
+            name="Course" 
+            component={CourseScreen}
+            options={{ title: 'Course' }}
+          />
+          <Stack.Screen 
+            name="Auth" 
+            component={AuthScreen}
+            options={{ title: 'Sign In' }}
+          />
         </Stack.Navigator>
         <StatusBar style="light" />
       </NavigationContainer>
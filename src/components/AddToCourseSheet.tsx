@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet, TextInput, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import WebAlert from './WebAlert';
+import {
+  getCourses,
+  addVideoToCourse,
+  removeVideoFromCourse,
+  createPlaylist,
+  Course,
+  CourseVideo,
+} from '../services/courseService';
+
+interface AddToCourseSheetProps {
+  visible: boolean;
+  video: CourseVideo;
+  onClose: () => void;
+}
+
+// Bottom sheet to put a video into one or more playlists (or a new one)
+export default function AddToCourseSheet({ visible, video, onClose }: AddToCourseSheetProps) {
+  const [playlists, setPlaylists] = useState<Course[]>([]);
+  const [newTitle, setNewTitle] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      getCourses()
+        .then(courses => setPlaylists(courses.filter(course => course.kind === 'playlist')))
+        .catch(error => console.error('Failed to load playlists:', error));
+    }
+  }, [visible]);
+
+  const togglePlaylist = async (playlist: Course) => {
+    try {
+      const isInPlaylist = playlist.videos.some(v => v.videoId === video.videoId);
+      const updated = isInPlaylist
+        ? await removeVideoFromCourse(playlist.id, video.videoId)
+        : await addVideoToCourse(playlist.id, video);
+      if (updated) {
+        setPlaylists(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+      }
+    } catch (error) {
+      WebAlert.alert('Error', 'Failed to update playlist');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newTitle.trim()) return;
+
+    try {
+      const playlist = await createPlaylist(newTitle, [video]);
+      setNewTitle('');
+      setPlaylists(prev => [playlist, ...prev]);
+    } catch (error) {
+      WebAlert.alert('Error', 'Failed to create playlist');
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <View style={styles.header}>
+            <Text style={styles.title}>📚 Add to Playlist</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.createRow}>
+            <TextInput
+              style={styles.createInput}
+              placeholder="New playlist..."
+              placeholderTextColor="#999"
+              value={newTitle}
+              onChangeText={setNewTitle}
+              onSubmitEditing={handleCreate}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.createButton, !newTitle.trim() && styles.disabledButton]}
+              onPress={handleCreate}
+              disabled={!newTitle.trim()}
+            >
+              <Ionicons name="add" size={20} color="#fff" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            {playlists.map(playlist => {
+              const isInPlaylist = playlist.videos.some(v => v.videoId === video.videoId);
+              return (
+                <TouchableOpacity
+                  key={playlist.id}
+                  style={styles.playlistItem}
+                  onPress={() => togglePlaylist(playlist)}
+                >
+                  <View style={styles.playlistInfo}>
+                    <Text style={styles.playlistTitle} numberOfLines={1}>{playlist.title}</Text>
+                    <Text style={styles.playlistMeta}>{playlist.videos.length} videos</Text>
+                  </View>
+                  <Ionicons
+                    name={isInPlaylist ? 'checkbox' : 'square-outline'}
+                    size={22}
+                    color={isInPlaylist ? '#667eea' : '#999'}
+                  />
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 15,
+    borderTopRightRadius: 15,
+    padding: 20,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: '#666',
+  },
+  createRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  createInput: {
+    flex: 1,
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 15,
+  },
+  createButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#667eea',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  playlistItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 8,
+    backgroundColor: '#f8f9fa',
+  },
+  playlistInfo: {
+    flex: 1,
+  },
+  playlistTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  playlistMeta: {
+    fontSize: 13,
+    color: '#666',
+  },
+});
@@ -4,6 +4,7 @@ import { Audio } from 'expo-av';
 
 type Props = {
   audioUrl: string;
+  onPositionChange?: (timeInSeconds: number) => void;
 };
 
 export type AudioPlayerRef = {
@@ -12,10 +13,23 @@ export type AudioPlayerRef = {
   pause: () => void;
   getCurrentTime: (callback: (time: number) => void) => void;
   playWithVAD: (onSilenceDetected: () => void, endTime?: number) => void;
+  // Play from start to end (seconds), then pause and call onEnd. Pausing cancels onEnd.
+  playRange: (start: number, end: number, onEnd?: () => void) => void;
+  // Playback speed (e.g. 0.5-1.5) without changing the speaker's pitch
+  setRate: (rate: number) => void;
+};
+
+// Keep the speaker's voice natural when slowed down or sped up
+const applyWebPlaybackRate = (audio: HTMLAudioElement, rate: number) => {
+  audio.defaultPlaybackRate = rate;
+  audio.playbackRate = rate;
+  audio.preservesPitch = true;
+  (audio as any).webkitPreservesPitch = true; // Safari
+  (audio as any).mozPreservesPitch = true; // Older Firefox
 };
 
 // Web Audio Player using HTML5 Audio with Voice Activity Detection
-const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) => {
+const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl, onPositionChange }, ref) => {
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -27,19 +41,48 @@ const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) =>
   const analyserRef = useRef<AnalyserNode | null>(null);
   const vadIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const onSilenceDetectedRef = useRef<(() => void) | null>(null);
+  const onPositionChangeRef = useRef(onPositionChange);
+  onPositionChangeRef.current = onPositionChange;
 
-  // Add new state for sentence playback
-  const [sentenceEndTime, setSentenceEndTime] = useState<number | null>(null);
+  // Sentence end time in media seconds - a ref so the end check interval sees the latest value.
+  // Comparing against audio.currentTime keeps the stop point correct at any playback rate.
+  const sentenceEndTimeRef = useRef<number | null>(null);
   const endCheckInterval = useRef<NodeJS.Timeout | null>(null);
+  // Range playback (loops) - refs so the interval always sees the latest range
+  const rangeEndRef = useRef<number | null>(null);
+  const onRangeEndRef = useRef<(() => void) | null>(null);
+  const playbackRateRef = useRef(1);
+
+  const clearRange = () => {
+    rangeEndRef.current = null;
+    onRangeEndRef.current = null;
+  };
+
+  const checkAndStopAtRangeEnd = () => {
+    const audio = audioRef.current;
+    if (!audio || rangeEndRef.current === null) return;
+
+    if (audio.currentTime >= rangeEndRef.current) {
+      audio.pause();
+      setIsPlaying(false);
+      if (endCheckInterval.current) {
+        clearInterval(endCheckInterval.current);
+        endCheckInterval.current = null;
+      }
+      const onEnd = onRangeEndRef.current;
+      clearRange();
+      onEnd?.();
+    }
+  };
 
   // Add function to check and stop at sentence end
   const checkAndStopAtSentenceEnd = () => {
-    if (audioRef.current && sentenceEndTime !== null) {
-      if (audioRef.current.currentTime >= sentenceEndTime) {
+    if (audioRef.current && sentenceEndTimeRef.current !== null) {
+      if (audioRef.current.currentTime >= sentenceEndTimeRef.current) {
         audioRef.current.pause();
         setIsPlaying(false);
         stopVoiceActivityDetection();
-        setSentenceEndTime(null);
+        sentenceEndTimeRef.current = null;
         if (endCheckInterval.current) {
           clearInterval(endCheckInterval.current);
           endCheckInterval.current = null;
@@ -184,6 +227,7 @@ const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) =>
     },
     play: () => {
       if (audioRef.current) {
+        clearRange();
         // Stop any currently playing audio and clean up
         if (isPlaying) {
           audioRef.current.pause();
@@ -197,7 +241,7 @@ const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) =>
         audioRef.current.play()
           .then(() => {
             setIsPlaying(true);
-            setSentenceEndTime(null); // Reset sentence end time for full playback
+            sentenceEndTimeRef.current = null; // Reset sentence end time for full playback
             console.log('▶️ Web Audio: Started playing');
           })
           .catch((error) => {
@@ -210,7 +254,8 @@ const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) =>
         audioRef.current.pause();
         setIsPlaying(false);
         stopVoiceActivityDetection();
-        setSentenceEndTime(null);
+        sentenceEndTimeRef.current = null;
+        clearRange();
         if (endCheckInterval.current) {
           clearInterval(endCheckInterval.current);
           endCheckInterval.current = null;
@@ -224,6 +269,7 @@ const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) =>
     },
     playWithVAD: (onSilenceDetected: () => void, endTime?: number) => {
       if (audioRef.current) {
+        clearRange();
         // Stop any currently playing audio and clean up
         if (isPlaying) {
           audioRef.current.pause();
@@ -236,7 +282,7 @@ const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) =>
 
         // Set sentence end time if provided
         if (endTime) {
-          setSentenceEndTime(endTime);
+          sentenceEndTimeRef.current = endTime;
           // Start interval to check for sentence end
           if (endCheckInterval.current) {
             clearInterval(endCheckInterval.current);
@@ -255,6 +301,39 @@ const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) =>
           });
       }
     },
+    playRange: (start: number, end: number, onEnd?: () => void) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+
+      stopVoiceActivityDetection();
+      sentenceEndTimeRef.current = null;
+      if (endCheckInterval.current) {
+        clearInterval(endCheckInterval.current);
+      }
+
+      audio.currentTime = start;
+      setPosition(start * 1000);
+      rangeEndRef.current = end;
+      onRangeEndRef.current = onEnd || null;
+      endCheckInterval.current = setInterval(checkAndStopAtRangeEnd, 50);
+
+      audio.play()
+        .then(() => {
+          setIsPlaying(true);
+          console.log(`🔁 Web Audio: Playing range ${start.toFixed(2)}s - ${end.toFixed(2)}s`);
+        })
+        .catch((error) => {
+          console.error('❌ Web Audio play range error:', error);
+          clearRange();
+        });
+    },
+    setRate: (rate: number) => {
+      playbackRateRef.current = rate;
+      if (audioRef.current) {
+        applyWebPlaybackRate(audioRef.current, rate);
+        console.log(`🐢 Web Audio: Playback rate ${rate}x`);
+      }
+    },
   }));
 
   // Clean up intervals on unmount
@@ -296,12 +375,13 @@ const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) =>
       
       audio.onplay = () => {
         setIsPlaying(true);
-        // Start position tracking
+        // Start position tracking (frequent enough for word highlighting)
         positionIntervalRef.current = setInterval(() => {
           if (audio.currentTime) {
             setPosition(audio.currentTime * 1000);
+            onPositionChangeRef.current?.(audio.currentTime);
           }
-        }, 1000);
+        }, 100);
       };
       
       audio.onpause = () => {
@@ -314,9 +394,11 @@ const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) =>
       
       audio.ontimeupdate = () => {
         setPosition(audio.currentTime * 1000);
+        onPositionChangeRef.current?.(audio.currentTime);
       };
       
       audio.src = audioUrl;
+      applyWebPlaybackRate(audio, playbackRateRef.current);
       audioRef.current = audio;
       
       // Cleanup function
@@ -367,7 +449,7 @@ const WebAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) =>
 });
 
 // Native Audio Player using Expo Audio
-const NativeAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) => {
+const NativeAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl, onPositionChange }, ref) => {
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
@@ -375,6 +457,17 @@ const NativeAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref)
   const [duration, setDuration] = useState<number>(0);
   const [position, setPosition] = useState<number>(0);
   const positionIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const onPositionChangeRef = useRef(onPositionChange);
+  onPositionChangeRef.current = onPositionChange;
+  // Range playback (loops) - checked on every playback status update
+  const rangeEndRef = useRef<number | null>(null);
+  const onRangeEndRef = useRef<(() => void) | null>(null);
+  const playbackRateRef = useRef(1);
+
+  const clearRange = () => {
+    rangeEndRef.current = null;
+    onRangeEndRef.current = null;
+  };
 
   useImperativeHandle(ref, () => ({
     seekTo: async (timeInSeconds: number) => {
@@ -386,6 +479,7 @@ const NativeAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref)
     },
     play: async () => {
         if (sound) {
+          clearRange();
           await sound.playAsync();
           setIsPlaying(true);
         console.log('▶️ Native Audio: Started playing');
@@ -393,6 +487,7 @@ const NativeAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref)
     },
     pause: async () => {
         if (sound) {
+          clearRange();
           await sound.pauseAsync();
           setIsPlaying(false);
         console.log('⏸️ Native Audio: Paused');
@@ -405,6 +500,7 @@ const NativeAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref)
     // For native, we'll use the same method but without VAD (fallback to timer)
     playWithVAD: async (onSilenceDetected: () => void) => {
       if (sound) {
+        clearRange();
         await sound.playAsync();
         setIsPlaying(true);
         console.log('▶️ Native Audio: Started playing (VAD not available, using timer fallback)');
@@ -412,6 +508,23 @@ const NativeAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref)
         // For now, we'll use the same timer-based approach as before
       }
     },
+    playRange: async (start: number, end: number, onEnd?: () => void) => {
+      if (sound) {
+        rangeEndRef.current = end;
+        onRangeEndRef.current = onEnd || null;
+        await sound.setPositionAsync(start * 1000);
+        await sound.playAsync();
+        setIsPlaying(true);
+        console.log(`🔁 Native Audio: Playing range ${start.toFixed(2)}s - ${end.toFixed(2)}s`);
+      }
+    },
+    setRate: async (rate: number) => {
+      playbackRateRef.current = rate;
+      if (sound) {
+        await sound.setRateAsync(rate, true, Audio.PitchCorrectionQuality.High);
+        console.log(`🐢 Native Audio: Playback rate ${rate}x`);
+      }
+    },
   }));
 
   const loadAudio = async () => {
@@ -439,6 +552,10 @@ const NativeAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref)
           shouldPlay: false,
           isLooping: false,
           volume: 1.0,
+          progressUpdateIntervalMillis: 100,
+          rate: playbackRateRef.current,
+          shouldCorrectPitch: true,
+          pitchCorrectionQuality: Audio.PitchCorrectionQuality.High,
         }
       );
 
@@ -448,6 +565,17 @@ const NativeAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref)
           setDuration(status.durationMillis || 0);
           setPosition(status.positionMillis || 0);
           setIsPlaying(status.isPlaying || false);
+          if (status.isPlaying) {
+            onPositionChangeRef.current?.((status.positionMillis || 0) / 1000);
+
+            // Stop at the end of the requested range
+            if (rangeEndRef.current !== null && status.positionMillis >= rangeEndRef.current * 1000) {
+              const onEnd = onRangeEndRef.current;
+              clearRange();
+              newSound.pauseAsync();
+              onEnd?.();
+            }
+          }
         }
       });
 
@@ -508,11 +636,11 @@ const NativeAudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref)
 });
 
 // Main AudioPlayer component that chooses between web and native
-const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl }, ref) => {
+const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioUrl, onPositionChange }, ref) => {
   if (Platform.OS === 'web') {
-    return <WebAudioPlayer ref={ref} audioUrl={audioUrl} />;
+    return <WebAudioPlayer ref={ref} audioUrl={audioUrl} onPositionChange={onPositionChange} />;
   } else {
-    return <NativeAudioPlayer ref={ref} audioUrl={audioUrl} />;
+    return <NativeAudioPlayer ref={ref} audioUrl={audioUrl} onPositionChange={onPositionChange} />;
   }
 });
 
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import WordDiffText, { getScoreColor } from './WordDiffText';
+import { DictationGrade, DictationStats } from '../services/dictationService';
+
+interface DictationInputProps {
+  sentenceText: string;
+  stats?: DictationStats;
+  canJumpToWeak: boolean;
+  onListen: () => void;
+  onSubmit: (answer: string) => Promise<DictationGrade>;
+  onNextWeak: () => void;
+}
+
+// Hidden-sentence practice: listen, type what you heard, then see the graded diff
+export default function DictationInput({
+  sentenceText,
+  stats,
+  canJumpToWeak,
+  onListen,
+  onSubmit,
+  onNextWeak,
+}: DictationInputProps) {
+  const [answer, setAnswer] = useState('');
+  const [grade, setGrade] = useState<DictationGrade | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleCheck = async () => {
+    if (!answer.trim() || submitting) return;
+
+    setSubmitting(true);
+    try {
+      setGrade(await onSubmit(answer));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleTryAgain = () => {
+    setAnswer('');
+    setGrade(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      {stats && (
+        <Text style={styles.statsText}>
+          {stats.attempts} {stats.attempts === 1 ? 'attempt' : 'attempts'} • last {stats.lastAccuracy}% • best {stats.bestAccuracy}%
+        </Text>
+      )}
+
+      {grade ? (
+        <View style={styles.result}>
+          <Text style={[styles.score, { color: getScoreColor(grade.accuracy) }]}>
+            {grade.accuracy}%
+          </Text>
+          <WordDiffText words={grade.words} />
+          <Text style={styles.answerText}>✅ {sentenceText}</Text>
+        </View>
+      ) : (
+        <TextInput
+          style={styles.input}
+          placeholder="Type what you hear..."
+          placeholderTextColor="#999"
+          value={answer}
+          onChangeText={setAnswer}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      )}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.button} onPress={onListen}>
+          <Text style={styles.buttonText}>🔊 Listen</Text>
+        </TouchableOpacity>
+
+        {grade ? (
+          <TouchableOpacity style={styles.button} onPress={handleTryAgain}>
+            <Text style={styles.buttonText}>🔄 Try Again</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.button, styles.primaryButton, (!answer.trim() || submitting) && styles.disabledButton]}
+            onPress={handleCheck}
+            disabled={!answer.trim() || submitting}
+          >
+            <Text style={[styles.buttonText, styles.primaryButtonText]}>✅ Check</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          style={[styles.button, !canJumpToWeak && styles.disabledButton]}
+          onPress={onNextWeak}
+          disabled={!canJumpToWeak}
+        >
+          <Text style={styles.buttonText}>⏭️ Next Weak</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+  },
+  statsText: {
+    fontSize: 11,
+    color: '#fff',
+    opacity: 0.9,
+    marginBottom: 6,
+  },
+  input: {
+    minHeight: 60,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    color: '#333',
+    textAlignVertical: 'top',
+  },
+  result: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 10,
+  },
+  score: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  answerText: {
+    marginTop: 6,
+    fontSize: 14,
+    color: '#333',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    paddingVertical: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 36,
+  },
+  primaryButton: {
+    backgroundColor: '#10b981',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#667eea',
+  },
+  primaryButtonText: {
+    color: '#fff',
+  },
+});
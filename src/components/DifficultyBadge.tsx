@@ -0,0 +1,41 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { CefrLevel } from '../services/difficultyService';
+
+interface DifficultyBadgeProps {
+  level: CefrLevel;
+  showLabel?: boolean; // "B1 Intermediate" instead of just "B1"
+}
+
+const LEVEL_STYLES: { [level in CefrLevel]: { color: string; background: string; label: string } } = {
+  A2: { color: '#047857', background: '#d1fae5', label: 'Elementary' },
+  B1: { color: '#1d4ed8', background: '#dbeafe', label: 'Intermediate' },
+  B2: { color: '#b45309', background: '#fef3c7', label: 'Upper Intermediate' },
+  C1: { color: '#b91c1c', background: '#fee2e2', label: 'Advanced' },
+};
+
+// Estimated CEFR level of a video
+export default function DifficultyBadge({ level, showLabel = false }: DifficultyBadgeProps) {
+  const levelStyle = LEVEL_STYLES[level];
+
+  return (
+    <View style={[styles.badge, { backgroundColor: levelStyle.background }]}>
+      <Text style={[styles.badgeText, { color: levelStyle.color }]}>
+        {level}{showLabel ? ` ${levelStyle.label}` : ''}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+});
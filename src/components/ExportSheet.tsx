@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet, ActivityIndicator } from 'react-native';
+import WebAlert from './WebAlert';
+import { PracticeSentence } from '../services/youtubeService';
+import { SentenceTranslations } from '../services/translationService';
+import { TRANSCRIPT_FORMATS, TranscriptFormat } from '../services/transcriptFormatService';
+import { exportTranscript } from '../services/exportService';
+
+interface ExportSheetProps {
+  visible: boolean;
+  title: string;
+  sentences: PracticeSentence[];
+  translations: SentenceTranslations;
+  onClose: () => void;
+}
+
+// Bottom sheet to export the transcript as subtitles, text or Anki flashcards
+export default function ExportSheet({ visible, title, sentences, translations, onClose }: ExportSheetProps) {
+  const [exporting, setExporting] = useState<TranscriptFormat | null>(null);
+
+  const translatedCount = sentences.filter(sentence => translations[sentence.text]).length;
+
+  const handleExport = async (format: TranscriptFormat) => {
+    try {
+      setExporting(format);
+      await exportTranscript(format, sentences, translations, title);
+      onClose();
+    } catch (error) {
+      WebAlert.alert('Export Failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <View style={styles.header}>
+            <Text style={styles.title}>📤 Export Transcript</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.summary}>
+            {sentences.length} sentences
+            {translatedCount > 0
+              ? ` · ${translatedCount} with translations`
+              : ' · turn on Bilingual to include translations'}
+          </Text>
+
+          {TRANSCRIPT_FORMATS.map(info => (
+            <TouchableOpacity
+              key={info.format}
+              style={styles.formatItem}
+              onPress={() => handleExport(info.format)}
+              disabled={exporting !== null || sentences.length === 0}
+            >
+              <View style={styles.formatInfo}>
+                <Text style={styles.formatLabel}>{info.label}</Text>
+                <Text style={styles.formatDescription}>{info.description}</Text>
+              </View>
+              {exporting === info.format ? (
+                <ActivityIndicator size="small" color="#667eea" />
+              ) : (
+                <Text style={styles.extension}>.{info.extension}</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 15,
+    borderTopRightRadius: 15,
+    padding: 20,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: '#666',
+  },
+  summary: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  formatItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 8,
+    backgroundColor: '#f8f9fa',
+  },
+  formatInfo: {
+    flex: 1,
+  },
+  formatLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 2,
+  },
+  formatDescription: {
+    fontSize: 13,
+    color: '#666',
+  },
+  extension: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#667eea',
+  },
+});
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import IntonationGraph from './IntonationGraph';
+import { analyzeIntonation, sliceAudio, NormalizedContourPoint } from '../services/intonationService';
+import { decodeAudio, decodeTrack, canDecodeCompressedAudio } from '../services/audioDecodingService';
+import RecordingService, { RecordingTake } from '../services/recordingService';
+
+interface IntonationComparisonProps {
+  audioUrl: string;
+  start: number;
+  end: number;
+  take?: RecordingTake;
+}
+
+// Collapsible intonation view comparing the original sentence clip with the learner's latest take
+export default function IntonationComparison({ audioUrl, start, end, take }: IntonationComparisonProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [originalContour, setOriginalContour] = useState<NormalizedContourPoint[]>([]);
+  const [learnerContour, setLearnerContour] = useState<NormalizedContourPoint[] | undefined>(undefined);
+
+  useEffect(() => {
+    if (!expanded) return;
+
+    let cancelled = false;
+
+    const analyze = async () => {
+      if (!canDecodeCompressedAudio()) {
+        setError('Intonation comparison is available on the web version.');
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const track = await decodeTrack(audioUrl);
+        const original = analyzeIntonation(sliceAudio(track, start, end));
+        const learner = take ? analyzeIntonation(await decodeAudio(await RecordingService.getTakeUri(take))) : undefined;
+
+        if (!cancelled) {
+          setOriginalContour(original);
+          setLearnerContour(learner);
+        }
+      } catch (analysisError) {
+        console.error('❌ Intonation analysis failed:', analysisError);
+        if (!cancelled) {
+          setError('Could not analyze the audio for this sentence.');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    analyze();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expanded, audioUrl, start, end, take?.id]);
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.header} onPress={() => setExpanded(!expanded)}>
+        <Text style={styles.headerText}>📈 Intonation</Text>
+        <Text style={styles.headerText}>{expanded ? '▲' : '▼'}</Text>
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.body}>
+          {loading ? (
+            <View style={styles.statusRow}>
+              <ActivityIndicator size="small" color="#667eea" />
+              <Text style={styles.statusText}>Analyzing pitch...</Text>
+            </View>
+          ) : error ? (
+            <Text style={styles.statusText}>{error}</Text>
+          ) : (
+            <>
+              <IntonationGraph original={originalContour} learner={learnerContour} />
+              {!take && (
+                <Text style={styles.hintText}>Record yourself to compare your intonation</Text>
+              )}
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#667eea',
+  },
+  body: {
+    paddingHorizontal: 10,
+    paddingBottom: 10,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  hintText: {
+    marginTop: 4,
+    fontSize: 11,
+    color: '#999',
+    textAlign: 'center',
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { NormalizedContourPoint } from '../services/intonationService';
+
+interface IntonationGraphProps {
+  original: NormalizedContourPoint[];
+  learner?: NormalizedContourPoint[];
+  height?: number;
+}
+
+// Semitone range shown on the graph (pitch outside it is clamped)
+const SEMITONE_RANGE = 8;
+const DOT_SIZE = 4;
+
+const COLORS = {
+  original: '#667eea',
+  learner: '#f59e0b',
+};
+
+// Draws pitch contours as dots on a shared, time-normalized axis.
+// Dot size follows loudness so stressed syllables stand out.
+export default function IntonationGraph({ original, learner, height = 120 }: IntonationGraphProps) {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const renderContour = (points: NormalizedContourPoint[], color: string, keyPrefix: string) =>
+    points.map((point, index) => {
+      if (point.semitones === null) return null;
+
+      const clamped = Math.max(-SEMITONE_RANGE, Math.min(SEMITONE_RANGE, point.semitones));
+      const size = DOT_SIZE + point.energy * DOT_SIZE;
+      const x = point.position * (width - size);
+      const y = ((SEMITONE_RANGE - clamped) / (SEMITONE_RANGE * 2)) * (height - size);
+
+      return (
+        <View
+          key={`${keyPrefix}-${index}`}
+          style={[
+            styles.dot,
+            { left: x, top: y, width: size, height: size, borderRadius: size / 2, backgroundColor: color },
+          ]}
+        />
+      );
+    });
+
+  return (
+    <View>
+      <View style={[styles.graph, { height }]} onLayout={handleLayout}>
+        <View style={[styles.midline, { top: height / 2 }]} />
+        {width > 0 && renderContour(original, COLORS.original, 'original')}
+        {width > 0 && learner && renderContour(learner, COLORS.learner, 'learner')}
+      </View>
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendDot, { backgroundColor: COLORS.original }]} />
+          <Text style={styles.legendText}>Original</Text>
+        </View>
+        {learner && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: COLORS.learner }]} />
+            <Text style={styles.legendText}>You</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  graph: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  midline: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: '#e0e0e0',
+  },
+  dot: {
+    position: 'absolute',
+    opacity: 0.8,
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 16,
+    marginTop: 6,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: 11,
+    color: '#666',
+  },
+});
@@ -0,0 +1,149 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Modal, ScrollView, StyleSheet } from 'react-native';
+import { TRANSLATION_LANGUAGES } from '../services/translationService';
+
+interface LanguageSelectorProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (languageCode: string) => void;
+  selectedLanguage: string;
+}
+
+// Picks the language sentences are translated into
+export default function LanguageSelector({ visible, onClose, onSelect, selectedLanguage }: LanguageSelectorProps) {
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>🌐 Translate Into</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.scroll}>
+            {TRANSLATION_LANGUAGES.map((language) => (
+              <TouchableOpacity
+                key={language.code}
+                style={[
+                  styles.languageItem,
+                  selectedLanguage === language.code && styles.selectedLanguageItem
+                ]}
+                onPress={() => {
+                  onSelect(language.code);
+                  onClose();
+                }}
+              >
+                <View style={styles.languageInfo}>
+                  <Text style={[
+                    styles.languageName,
+                    selectedLanguage === language.code && styles.selectedLanguageText
+                  ]}>
+                    {language.name}
+                  </Text>
+                  <Text style={[
+                    styles.nativeName,
+                    selectedLanguage === language.code && styles.selectedLanguageText
+                  ]}>
+                    {language.nativeName}
+                  </Text>
+                </View>
+                {selectedLanguage === language.code && (
+                  <Text style={styles.checkmark}>✓</Text>
+                )}
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <Text style={styles.note}>
+            💡 Translations are saved per video for each language
+          </Text>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modal: {
+    backgroundColor: 'white',
+    borderRadius: 15,
+    padding: 20,
+    width: '100%',
+    maxWidth: 350,
+    maxHeight: '80%',
+  },
+  scroll: {
+    marginBottom: 15,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: '#666',
+  },
+  languageItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 8,
+    backgroundColor: '#f8f9fa',
+  },
+  selectedLanguageItem: {
+    backgroundColor: '#667eea',
+  },
+  languageInfo: {
+    flex: 1,
+  },
+  languageName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 2,
+  },
+  nativeName: {
+    fontSize: 14,
+    color: '#666',
+  },
+  selectedLanguageText: {
+    color: 'white',
+  },
+  checkmark: {
+    fontSize: 18,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  note: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,291 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, PanResponder, LayoutChangeEvent } from 'react-native';
+
+export interface LoopRange {
+  start: number;
+  end: number;
+}
+
+export interface LoopProgress {
+  current: number;
+  total: number; // 0 = loop until stopped
+}
+
+interface LoopControlsProps {
+  sentenceRange: LoopRange; // Transcript boundaries of the current sentence
+  range: LoopRange; // Current A-B points
+  repeatCount: number; // 0 = loop until stopped
+  gapSeconds: number;
+  progress: LoopProgress | null; // null when not looping
+  onRangeChange: (range: LoopRange) => void;
+  onRepeatCountChange: (count: number) => void;
+  onGapChange: (seconds: number) => void;
+}
+
+const REPEAT_OPTIONS = [1, 3, 5, 10, 0];
+const GAP_OPTIONS = [0, 1, 2, 3, 5];
+const HANDLE_MARGIN_SECONDS = 3; // How far the handles can go past the transcript boundaries
+const MIN_RANGE_SECONDS = 0.3;
+const HANDLE_SIZE = 24;
+
+const formatSeconds = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${mins}:${secs}`;
+};
+
+export const formatRepeatCount = (count: number) => (count === 0 ? '∞' : `×${count}`);
+
+// Draggable A/B handles over a window around the current sentence
+function LoopRangeSlider({
+  sentenceRange,
+  range,
+  onRangeChange,
+}: Pick<LoopControlsProps, 'sentenceRange' | 'range' | 'onRangeChange'>) {
+  const [trackWidth, setTrackWidth] = useState(0);
+  const windowStart = Math.max(0, sentenceRange.start - HANDLE_MARGIN_SECONDS);
+  const windowEnd = sentenceRange.end + HANDLE_MARGIN_SECONDS;
+  const windowLength = windowEnd - windowStart;
+
+  // PanResponders are created once, so they read the latest values through a ref
+  const latest = useRef({ range, trackWidth, windowStart, windowEnd, windowLength, onRangeChange });
+  latest.current = { range, trackWidth, windowStart, windowEnd, windowLength, onRangeChange };
+  const dragStartRef = useRef(range);
+
+  const createHandleResponder = (handle: 'start' | 'end') =>
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        dragStartRef.current = latest.current.range;
+      },
+      onPanResponderMove: (_, gesture) => {
+        const { trackWidth, windowStart, windowEnd, windowLength, onRangeChange } = latest.current;
+        if (trackWidth <= 0) return;
+
+        const delta = (gesture.dx / trackWidth) * windowLength;
+        const initial = dragStartRef.current;
+
+        if (handle === 'start') {
+          const start = Math.min(Math.max(windowStart, initial.start + delta), initial.end - MIN_RANGE_SECONDS);
+          onRangeChange({ start, end: initial.end });
+        } else {
+          const end = Math.max(Math.min(windowEnd, initial.end + delta), initial.start + MIN_RANGE_SECONDS);
+          onRangeChange({ start: initial.start, end });
+        }
+      },
+    });
+
+  const startResponder = useRef(createHandleResponder('start')).current;
+  const endResponder = useRef(createHandleResponder('end')).current;
+
+  const toX = (time: number) => ((time - windowStart) / windowLength) * trackWidth;
+
+  return (
+    <View
+      style={styles.track}
+      onLayout={(event: LayoutChangeEvent) => setTrackWidth(event.nativeEvent.layout.width)}
+    >
+      <View style={styles.trackLine} />
+      {trackWidth > 0 && (
+        <>
+          {/* Transcript boundaries */}
+          <View
+            style={[
+              styles.sentenceSpan,
+              { left: toX(sentenceRange.start), width: toX(sentenceRange.end) - toX(sentenceRange.start) },
+            ]}
+          />
+          {/* Selected A-B range */}
+          <View
+            style={[
+              styles.selectedSpan,
+              { left: toX(range.start), width: toX(range.end) - toX(range.start) },
+            ]}
+          />
+          <View
+            {...startResponder.panHandlers}
+            style={[styles.handle, { left: toX(range.start) - HANDLE_SIZE / 2 }]}
+          >
+            <Text style={styles.handleText}>A</Text>
+          </View>
+          <View
+            {...endResponder.panHandlers}
+            style={[styles.handle, { left: toX(range.end) - HANDLE_SIZE / 2 }]}
+          >
+            <Text style={styles.handleText}>B</Text>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+// Repeat count, gap and A-B loop points for shadowing a single sentence
+export default function LoopControls({
+  sentenceRange,
+  range,
+  repeatCount,
+  gapSeconds,
+  progress,
+  onRangeChange,
+  onRepeatCountChange,
+  onGapChange,
+}: LoopControlsProps) {
+  const isAdjusted = range.start !== sentenceRange.start || range.end !== sentenceRange.end;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.statusRow}>
+        <Text style={styles.statusText}>
+          {progress
+            ? `🔁 Playing ${progress.current}${progress.total ? `/${progress.total}` : ''}`
+            : '🔁 Loop ready'}
+        </Text>
+        <Text style={styles.rangeText}>
+          A {formatSeconds(range.start)} – B {formatSeconds(range.end)}
+        </Text>
+        {isAdjusted && (
+          <TouchableOpacity onPress={() => onRangeChange(sentenceRange)}>
+            <Text style={styles.resetText}>Reset</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <LoopRangeSlider sentenceRange={sentenceRange} range={range} onRangeChange={onRangeChange} />
+
+      <View style={styles.optionRow}>
+        <Text style={styles.optionLabel}>Repeat</Text>
+        {REPEAT_OPTIONS.map(count => (
+          <TouchableOpacity
+            key={count}
+            style={[styles.option, repeatCount === count && styles.activeOption]}
+            onPress={() => onRepeatCountChange(count)}
+          >
+            <Text style={[styles.optionText, repeatCount === count && styles.activeOptionText]}>
+              {formatRepeatCount(count)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.optionRow}>
+        <Text style={styles.optionLabel}>Gap</Text>
+        {GAP_OPTIONS.map(seconds => (
+          <TouchableOpacity
+            key={seconds}
+            style={[styles.option, gapSeconds === seconds && styles.activeOption]}
+            onPress={() => onGapChange(seconds)}
+          >
+            <Text style={[styles.optionText, gapSeconds === seconds && styles.activeOptionText]}>
+              {seconds}s
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    padding: 10,
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#667eea',
+  },
+  rangeText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'right',
+  },
+  resetText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#ef4444',
+  },
+  track: {
+    height: 36,
+    marginVertical: 6,
+    marginHorizontal: HANDLE_SIZE / 2,
+    justifyContent: 'center',
+  },
+  trackLine: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e0e0e0',
+  },
+  sentenceSpan: {
+    position: 'absolute',
+    height: 4,
+    top: 16,
+    backgroundColor: '#c7d2fe',
+  },
+  selectedSpan: {
+    position: 'absolute',
+    height: 8,
+    top: 14,
+    borderRadius: 4,
+    backgroundColor: '#667eea',
+  },
+  handle: {
+    position: 'absolute',
+    top: 6,
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    backgroundColor: '#fff',
+    borderWidth: 2,
+    borderColor: '#667eea',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  handleText: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: '#667eea',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  optionLabel: {
+    width: 48,
+    fontSize: 12,
+    color: '#666',
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+  },
+  activeOption: {
+    backgroundColor: '#667eea',
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  activeOptionText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import WebAlert from './WebAlert';
+import { getOfflinePack, downloadOfflinePack, deleteOfflinePack } from '../services/offlinePackService';
+
+interface OfflinePackButtonProps {
+  videoId: string;
+  title: string;
+  compact?: boolean; // Icon only (for list items)
+}
+
+type PackStatus = 'checking' | 'idle' | 'downloading' | 'downloaded';
+
+// "Download for offline" action - downloads or removes the video's offline pack
+export default function OfflinePackButton({ videoId, title, compact = false }: OfflinePackButtonProps) {
+  const [status, setStatus] = useState<PackStatus>('checking');
+  const [progressMessage, setProgressMessage] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getOfflinePack(videoId)
+      .then(pack => !cancelled && setStatus(pack ? 'downloaded' : 'idle'))
+      .catch(() => !cancelled && setStatus('idle'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId]);
+
+  const handleDownload = async () => {
+    try {
+      setStatus('downloading');
+      await downloadOfflinePack(videoId, setProgressMessage);
+      setStatus('downloaded');
+    } catch (error) {
+      setStatus('idle');
+      WebAlert.alert('Download Failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setProgressMessage('');
+    }
+  };
+
+  const handleRemove = () => {
+    WebAlert.alert(
+      'Remove Offline Copy',
+      `Remove the downloaded audio and transcript for "${title}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteOfflinePack(videoId);
+              setStatus('idle');
+            } catch (error) {
+              WebAlert.alert('Error', 'Failed to remove offline copy');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handlePress = () => {
+    if (status === 'downloaded') {
+      handleRemove();
+    } else if (status === 'idle') {
+      handleDownload();
+    }
+  };
+
+  const isBusy = status === 'checking' || status === 'downloading';
+
+  if (compact) {
+    return (
+      <TouchableOpacity style={styles.iconButton} onPress={handlePress} disabled={isBusy}>
+        {isBusy ? (
+          <ActivityIndicator size="small" color="#667eea" />
+        ) : (
+          <Ionicons
+            name={status === 'downloaded' ? 'cloud-done' : 'cloud-download-outline'}
+            size={20}
+            color={status === 'downloaded' ? '#10b981' : '#667eea'}
+          />
+        )}
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, status === 'downloaded' && styles.downloadedButton]}
+      onPress={handlePress}
+      disabled={isBusy}
+    >
+      <View style={styles.buttonContent}>
+        {isBusy ? (
+          <ActivityIndicator size="small" color="#667eea" />
+        ) : (
+          <Ionicons
+            name={status === 'downloaded' ? 'cloud-done' : 'cloud-download-outline'}
+            size={20}
+            color={status === 'downloaded' ? '#10b981' : '#667eea'}
+          />
+        )}
+        <Text style={[styles.buttonText, status === 'downloaded' && styles.downloadedText]}>
+          {status === 'downloading'
+            ? progressMessage || 'Downloading...'
+            : status === 'downloaded'
+              ? 'Available Offline'
+              : 'Download for Offline'}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  iconButton: {
+    padding: 8,
+    justifyContent: 'center',
+  },
+  button: {
+    borderWidth: 2,
+    borderColor: '#667eea',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  downloadedButton: {
+    borderColor: '#10b981',
+  },
+  buttonContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  buttonText: {
+    color: '#667eea',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  downloadedText: {
+    color: '#10b981',
+  },
+});
@@ -0,0 +1,96 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import WordDiffText, { getScoreColor } from './WordDiffText';
+import { PronunciationResult } from '../services/pronunciationService';
+
+interface PronunciationFeedbackProps {
+  result?: PronunciationResult;
+  isScoring: boolean;
+  error?: string;
+  onRetry?: () => void;
+}
+
+export default function PronunciationFeedback({ result, isScoring, error, onRetry }: PronunciationFeedbackProps) {
+  if (isScoring) {
+    return (
+      <View style={[styles.container, styles.row]}>
+        <ActivityIndicator size="small" color="#667eea" />
+        <Text style={styles.statusText}>Scoring your pronunciation...</Text>
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={[styles.container, styles.row]}>
+        <Text style={styles.errorText}>⚠️ {error}</Text>
+        {onRetry && (
+          <TouchableOpacity onPress={onRetry}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  if (!result) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={[styles.score, { color: getScoreColor(result.accuracy) }]}>
+          {result.accuracy}%
+        </Text>
+        <Text style={styles.statusText}>
+          {result.correctCount}/{result.expectedCount} words matched
+        </Text>
+      </View>
+      <WordDiffText words={result.words} />
+      {result.recognizedText.length > 0 && (
+        <Text style={styles.heardText} numberOfLines={2}>
+          Heard: "{result.recognizedText}"
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  score: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  heardText: {
+    marginTop: 6,
+    fontSize: 11,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#cc6666',
+  },
+  retryText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#667eea',
+  },
+});
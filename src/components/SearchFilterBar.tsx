@@ -0,0 +1,137 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { SearchFilters } from '../services/youtubeService';
+
+interface SearchFilterBarProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+}
+
+interface FilterGroup<K extends keyof SearchFilters> {
+  key: K;
+  label: string;
+  options: { value: SearchFilters[K]; label: string }[];
+}
+
+const DURATION_GROUP: FilterGroup<'duration'> = {
+  key: 'duration',
+  label: 'Length',
+  options: [
+    { value: 'any', label: 'Any' },
+    { value: 'short', label: 'Under 4 min' },
+    { value: 'medium', label: '4-10 min' },
+  ],
+};
+
+const CAPTIONS_GROUP: FilterGroup<'captions'> = {
+  key: 'captions',
+  label: 'Captions',
+  options: [
+    { value: 'any', label: 'Any' },
+    { value: 'manual', label: 'Human-written' },
+    { value: 'auto', label: 'Auto-generated' },
+  ],
+};
+
+const UPLOAD_DATE_GROUP: FilterGroup<'uploadDate'> = {
+  key: 'uploadDate',
+  label: 'Uploaded',
+  options: [
+    { value: 'any', label: 'Any time' },
+    { value: 'week', label: 'This week' },
+    { value: 'month', label: 'This month' },
+    { value: 'year', label: 'This year' },
+  ],
+};
+
+const REGION_GROUP: FilterGroup<'region'> = {
+  key: 'region',
+  label: 'Accent',
+  options: [
+    { value: 'any', label: 'Any' },
+    { value: 'US', label: '🇺🇸 American' },
+    { value: 'GB', label: '🇬🇧 British' },
+    { value: 'AU', label: '🇦🇺 Australian' },
+    { value: 'CA', label: '🇨🇦 Canadian' },
+    { value: 'IN', label: '🇮🇳 Indian' },
+  ],
+};
+
+const ORDER_GROUP: FilterGroup<'order'> = {
+  key: 'order',
+  label: 'Sort by',
+  options: [
+    { value: 'relevance', label: 'Relevance' },
+    { value: 'date', label: 'Newest' },
+    { value: 'viewCount', label: 'Most viewed' },
+    { value: 'rating', label: 'Top rated' },
+  ],
+};
+
+const FILTER_GROUPS: FilterGroup<keyof SearchFilters>[] = [DURATION_GROUP, CAPTIONS_GROUP, UPLOAD_DATE_GROUP, REGION_GROUP, ORDER_GROUP];
+
+// Chip rows for the search filters - one row per filter, a single choice per row
+export default function SearchFilterBar({ filters, onChange }: SearchFilterBarProps) {
+  return (
+    <View style={styles.container}>
+      {FILTER_GROUPS.map(group => (
+        <View key={group.key} style={styles.group}>
+          <Text style={styles.groupLabel}>{group.label}</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {group.options.map(option => {
+              const isActive = filters[group.key] === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, isActive && styles.activeChip]}
+                  onPress={() => !isActive && onChange({ ...filters, [group.key]: option.value })}
+                >
+                  <Text style={[styles.chipText, isActive && styles.activeChipText]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    gap: 10,
+  },
+  group: {
+    gap: 6,
+  },
+  groupLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  activeChip: {
+    backgroundColor: '#667eea',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  activeChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
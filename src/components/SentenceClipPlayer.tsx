@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import AudioPlayer, { AudioPlayerRef } from './AudioPlayer';
+import { getMediaSource, getMediaAudio } from '../services/mediaSourceService';
+
+interface SentenceClipPlayerProps {
+  videoId: string;
+  start: number;
+  end: number;
+}
+
+// Plays one sentence of a video's (or local file's) original audio (outside of ScriptPracticeScreen)
+export default function SentenceClipPlayer({ videoId, start, end }: SentenceClipPlayerProps) {
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioPlayerRef = useRef<AudioPlayerRef>(null);
+  const stopTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const clearStopTimer = () => {
+    if (stopTimerRef.current) {
+      clearTimeout(stopTimerRef.current);
+      stopTimerRef.current = null;
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadAudio = async () => {
+      try {
+        setLoading(true);
+        setHasError(false);
+        const source = await getMediaSource(videoId);
+        if (!source) {
+          throw new Error('Media not found');
+        }
+        const audio = await getMediaAudio(source);
+        if (!cancelled) {
+          setAudioUrl(audio.audioUrl);
+        }
+      } catch (error) {
+        console.error('❌ Failed to load clip audio:', error);
+        if (!cancelled) {
+          setHasError(true);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadAudio();
+
+    return () => {
+      cancelled = true;
+      clearStopTimer();
+    };
+  }, [videoId]);
+
+  // Stop when switching to another sentence
+  useEffect(() => {
+    return () => {
+      clearStopTimer();
+      audioPlayerRef.current?.pause();
+      setIsPlaying(false);
+    };
+  }, [videoId, start]);
+
+  const handlePlay = () => {
+    if (!audioPlayerRef.current) return;
+
+    clearStopTimer();
+
+    if (isPlaying) {
+      audioPlayerRef.current.pause();
+      setIsPlaying(false);
+      return;
+    }
+
+    audioPlayerRef.current.seekTo(start);
+    audioPlayerRef.current.play();
+    setIsPlaying(true);
+
+    // 200ms padding so the last word isn't clipped
+    stopTimerRef.current = setTimeout(() => {
+      audioPlayerRef.current?.pause();
+      setIsPlaying(false);
+    }, (end - start) * 1000 + 200);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.statusRow}>
+        <ActivityIndicator size="small" color="#667eea" />
+        <Text style={styles.statusText}>Loading audio...</Text>
+      </View>
+    );
+  }
+
+  if (hasError || !audioUrl) {
+    return (
+      <View style={styles.statusRow}>
+        <Text style={styles.statusText}>⚠️ Original audio is not available</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <AudioPlayer audioUrl={audioUrl} ref={audioPlayerRef} />
+      <TouchableOpacity style={styles.playButton} onPress={handlePlay}>
+        <Text style={styles.playButtonText}>
+          {isPlaying ? '⏸️ Pause' : '▶️ Play Clip'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 12,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  playButton: {
+    backgroundColor: '#667eea',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  playButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
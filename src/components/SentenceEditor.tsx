@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { PracticeSentence } from '../services/youtubeService';
+import { getWordTimings } from '../services/whisperService';
+
+interface SentenceEditorProps {
+  sentence: PracticeSentence;
+  canMerge: boolean; // false for the last sentence
+  canUndo: boolean;
+  onSplit: (wordIndex: number) => void;
+  onMerge: () => void;
+  onRetime: (start: number, end: number, edge: 'start' | 'end') => void;
+  onListen: () => void;
+  onUndo: () => void;
+  onReset: () => void;
+}
+
+const NUDGE_STEPS = [-0.5, -0.1, 0.1, 0.5];
+
+const formatSeconds = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(2).padStart(5, '0');
+  return `${mins}:${secs}`;
+};
+
+// Edit mode for the current sentence: split at a word, merge with the next one, nudge start/end
+export default function SentenceEditor({
+  sentence,
+  canMerge,
+  canUndo,
+  onSplit,
+  onMerge,
+  onRetime,
+  onListen,
+  onUndo,
+  onReset,
+}: SentenceEditorProps) {
+  const [splitIndex, setSplitIndex] = useState<number | null>(null);
+  const words = getWordTimings(sentence);
+
+  const handleSplit = () => {
+    if (splitIndex === null) return;
+    onSplit(splitIndex);
+    setSplitIndex(null);
+  };
+
+  const renderNudgeRow = (label: string, edge: 'start' | 'end') => {
+    const value = edge === 'start' ? sentence.start : sentence.end;
+    return (
+      <View style={styles.nudgeRow}>
+        <Text style={styles.nudgeLabel}>{label}</Text>
+        {NUDGE_STEPS.map(step => (
+          <TouchableOpacity
+            key={step}
+            style={styles.nudgeButton}
+            onPress={() => edge === 'start'
+              ? onRetime(Math.max(0, sentence.start + step), sentence.end, 'start')
+              : onRetime(sentence.start, sentence.end + step, 'end')}
+          >
+            <Text style={styles.nudgeButtonText}>{step > 0 ? `+${step}` : step}</Text>
+          </TouchableOpacity>
+        ))}
+        <Text style={styles.timeText}>{formatSeconds(value)}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.hintText}>Tap a word to split the sentence before it</Text>
+      <View style={styles.wordRow}>
+        {words.map((word, index) => (
+          <TouchableOpacity
+            key={`${index}-${word.start}`}
+            style={[styles.wordChip, splitIndex === index && styles.splitWordChip]}
+            onPress={() => setSplitIndex(index === 0 || splitIndex === index ? null : index)}
+            disabled={index === 0}
+          >
+            <Text style={[styles.wordText, splitIndex === index && styles.splitWordText]}>
+              {splitIndex === index ? `✂️ ${word.word}` : word.word}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {renderNudgeRow('Start', 'start')}
+      {renderNudgeRow('End', 'end')}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.button} onPress={onListen}>
+          <Text style={styles.buttonText}>▶️ Listen</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, splitIndex === null && styles.disabledButton]}
+          onPress={handleSplit}
+          disabled={splitIndex === null}
+        >
+          <Text style={styles.buttonText}>✂️ Split</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, !canMerge && styles.disabledButton]}
+          onPress={onMerge}
+          disabled={!canMerge}
+        >
+          <Text style={styles.buttonText}>🔗 Merge Next</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, !canUndo && styles.disabledButton]}
+          onPress={onUndo}
+          disabled={!canUndo}
+        >
+          <Text style={styles.buttonText}>↩️ Undo</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, !canUndo && styles.disabledButton]}
+          onPress={onReset}
+          disabled={!canUndo}
+        >
+          <Text style={[styles.buttonText, styles.resetText]}>Reset All Edits</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 10,
+  },
+  hintText: {
+    fontSize: 11,
+    color: '#999',
+    marginBottom: 6,
+  },
+  wordRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginBottom: 8,
+  },
+  wordChip: {
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  splitWordChip: {
+    backgroundColor: '#667eea',
+  },
+  wordText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  splitWordText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  nudgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 6,
+  },
+  nudgeLabel: {
+    width: 40,
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#666',
+  },
+  nudgeButton: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+  },
+  nudgeButtonText: {
+    fontSize: 12,
+    color: '#667eea',
+    fontWeight: 'bold',
+  },
+  timeText: {
+    width: 64,
+    fontSize: 12,
+    color: '#333',
+    textAlign: 'right',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 6,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: '#f0f0f0',
+    borderRadius: 16,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#667eea',
+  },
+  resetText: {
+    color: '#ef4444',
+  },
+});
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { WhisperWord } from '../services/whisperService';
+
+interface SentenceTextProps {
+  text: string;
+  wordTimings: WhisperWord[];
+  activeWordIndex: number; // -1 when nothing is being played
+  style?: StyleProp<TextStyle>;
+  onWordPress?: (word: string) => void; // Makes each word tappable
+}
+
+// Sentence text with karaoke-style highlighting of the word currently being spoken
+const SentenceText: React.FC<SentenceTextProps> = React.memo(({ text, wordTimings, activeWordIndex, style, onWordPress }) => {
+  if (activeWordIndex < 0 || wordTimings.length === 0) {
+    if (!onWordPress) {
+      return <Text style={style}>{text}</Text>;
+    }
+
+    const tokens = text.split(/\s+/).filter(Boolean);
+    return (
+      <Text style={style}>
+        {tokens.map((token, index) => (
+          <Text key={`${index}-${token}`} onPress={() => onWordPress(token)}>
+            {token}
+            {index < tokens.length - 1 ? ' ' : ''}
+          </Text>
+        ))}
+      </Text>
+    );
+  }
+
+  return (
+    <Text style={style}>
+      {wordTimings.map((timing, index) => (
+        <Text
+          key={`${index}-${timing.start}`}
+          onPress={onWordPress ? () => onWordPress(timing.word) : undefined}
+          style={[
+            index < activeWordIndex && styles.spokenWord,
+            index === activeWordIndex && styles.activeWord,
+          ]}
+        >
+          {timing.word}
+          {index < wordTimings.length - 1 ? ' ' : ''}
+        </Text>
+      ))}
+    </Text>
+  );
+});
+
+SentenceText.displayName = 'SentenceText';
+
+const styles = StyleSheet.create({
+  spokenWord: {
+    opacity: 0.7,
+  },
+  activeWord: {
+    backgroundColor: '#ffd54f',
+    color: '#333',
+    fontWeight: 'bold',
+    borderRadius: 4,
+  },
+});
+
+export default SentenceText;
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert, Platform } from 'react-native';
+import RecordingService, { RecordingTake } from '../services/recordingService';
+
+interface ShadowingControlsProps {
+  videoId: string;
+  sentenceStart: number;
+  takes: RecordingTake[];
+  canPlayOriginal: boolean;
+  onRecordingStart: () => void;
+  onTakeRecorded: (take: RecordingTake) => void;
+  onPlayOriginal: () => void;
+}
+
+const formatTakeDuration = (millis: number): string => `${(millis / 1000).toFixed(1)}s`;
+
+export default function ShadowingControls({
+  videoId,
+  sentenceStart,
+  takes,
+  canPlayOriginal,
+  onRecordingStart,
+  onTakeRecorded,
+  onPlayOriginal,
+}: ShadowingControlsProps) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [isPlayingMine, setIsPlayingMine] = useState(false);
+  const latestTake = takes[0];
+
+  // Stop recording/playback when moving to another sentence
+  useEffect(() => {
+    return () => {
+      RecordingService.cancelRecording();
+      RecordingService.stopPlayback();
+    };
+  }, [sentenceStart]);
+
+  const showError = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const handleRecordPress = async () => {
+    try {
+      if (isRecording) {
+        setIsRecording(false);
+        const take = await RecordingService.stopRecording(videoId, sentenceStart);
+        onTakeRecorded(take);
+      } else {
+        onRecordingStart();
+        await RecordingService.startRecording();
+        setIsRecording(true);
+      }
+    } catch (error) {
+      console.error('❌ Recording error:', error);
+      setIsRecording(false);
+      showError(
+        'Recording Error',
+        error instanceof Error && error.message.includes('permission')
+          ? 'Microphone access is required to record your voice.'
+          : 'Failed to record audio. Please try again.'
+      );
+    }
+  };
+
+  const handlePlayMine = async () => {
+    if (!latestTake) return;
+
+    if (isPlayingMine) {
+      await RecordingService.stopPlayback();
+      setIsPlayingMine(false);
+      return;
+    }
+
+    try {
+      setIsPlayingMine(true);
+      await RecordingService.playTake(latestTake, () => setIsPlayingMine(false));
+    } catch (error) {
+      console.error('❌ Failed to play recording:', error);
+      setIsPlayingMine(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={[styles.button, isRecording && styles.recordingButton]}
+        onPress={handleRecordPress}
+      >
+        <Text style={[styles.buttonText, isRecording && styles.recordingButtonText]}>
+          {isRecording ? '⏹️ Stop' : '🎙️ Record'}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={[styles.button, (!latestTake || isRecording) && styles.disabledButton]}
+        onPress={handlePlayMine}
+        disabled={!latestTake || isRecording}
+      >
+        <Text style={styles.buttonText}>
+          {isPlayingMine ? '⏸️ Mine' : '▶️ Mine'}
+        </Text>
+        {latestTake && (
+          <Text style={styles.takeInfo}>{formatTakeDuration(latestTake.durationMillis)}</Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={[styles.button, (!canPlayOriginal || isRecording) && styles.disabledButton]}
+        onPress={onPlayOriginal}
+        disabled={!canPlayOriginal || isRecording}
+      >
+        <Text style={styles.buttonText}>▶️ Original</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 36,
+  },
+  recordingButton: {
+    backgroundColor: '#ef4444',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#667eea',
+  },
+  recordingButtonText: {
+    color: '#fff',
+  },
+  takeInfo: {
+    fontSize: 10,
+    color: '#999',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { Ionicons } from '@expo/vector-icons';
+import WebAlert from './WebAlert';
+import { importSubtitleFile, getImportedTranscript, removeImportedTranscript } from '../services/whisperService';
+import { clearTranscriptEdits } from '../services/transcriptEditService';
+
+interface SubtitleImportButtonProps {
+  videoId: string;
+}
+
+type ImportStatus = 'checking' | 'idle' | 'importing' | 'imported';
+
+const SUBTITLE_EXTENSIONS = ['.srt', '.vtt'];
+
+const readPickedFile = async (asset: DocumentPicker.DocumentPickerAsset): Promise<string> => {
+  if (Platform.OS === 'web') {
+    return asset.file ? asset.file.text() : (await fetch(asset.uri)).text();
+  }
+  return FileSystem.readAsStringAsync(asset.uri);
+};
+
+// "Import subtitles" action - uses an .srt/.vtt file as the video's transcript instead of the server one
+export default function SubtitleImportButton({ videoId }: SubtitleImportButtonProps) {
+  const [status, setStatus] = useState<ImportStatus>('checking');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getImportedTranscript(videoId)
+      .then(imported => !cancelled && setStatus(imported ? 'imported' : 'idle'))
+      .catch(() => !cancelled && setStatus('idle'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId]);
+
+  const handleImport = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: Platform.OS === 'web' ? SUBTITLE_EXTENSIONS.join(',') : '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      if (!SUBTITLE_EXTENSIONS.some(extension => asset.name.toLowerCase().endsWith(extension))) {
+        WebAlert.alert('Unsupported File', 'Please choose an .srt or .vtt subtitle file.');
+        return;
+      }
+
+      setStatus('importing');
+      const transcript = await importSubtitleFile(videoId, await readPickedFile(asset));
+      // Sentence edits were made against the old transcript's boundaries
+      await clearTranscriptEdits(videoId);
+      setStatus('imported');
+      WebAlert.alert('Subtitles Imported', `${transcript.sentences.length} sentences from "${asset.name}" will be used for practice.`);
+    } catch (error) {
+      console.error('❌ Subtitle import failed:', error);
+      setStatus('idle');
+      WebAlert.alert('Import Failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleRemove = () => {
+    WebAlert.alert(
+      'Remove Imported Subtitles',
+      'Go back to the YouTube or Whisper transcript for this video?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeImportedTranscript(videoId);
+              await clearTranscriptEdits(videoId);
+              setStatus('idle');
+            } catch (error) {
+              WebAlert.alert('Error', 'Failed to remove imported subtitles');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const isBusy = status === 'checking' || status === 'importing';
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, status === 'imported' && styles.importedButton]}
+      onPress={status === 'imported' ? handleRemove : handleImport}
+      disabled={isBusy}
+    >
+      <View style={styles.buttonContent}>
+        {isBusy ? (
+          <ActivityIndicator size="small" color="#667eea" />
+        ) : (
+          <Ionicons
+            name={status === 'imported' ? 'document-text' : 'document-attach-outline'}
+            size={20}
+            color={status === 'imported' ? '#10b981' : '#667eea'}
+          />
+        )}
+        <Text style={[styles.buttonText, status === 'imported' && styles.importedText]}>
+          {status === 'importing'
+            ? 'Importing...'
+            : status === 'imported'
+              ? 'Using Imported Subtitles'
+              : 'Import Subtitles (.srt / .vtt)'}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    borderWidth: 2,
+    borderColor: '#667eea',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  importedButton: {
+    borderColor: '#10b981',
+  },
+  buttonContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  buttonText: {
+    color: '#667eea',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  importedText: {
+    color: '#10b981',
+  },
+});
@@ -0,0 +1,59 @@
+import React, { useState, useEffect } from 'react';
+import { Text, TouchableOpacity, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+
+interface TranslationLineProps {
+  translation?: string;
+  isPending: boolean; // Still waiting for this translation
+  isMasked: boolean; // Self-test mode: blurred until tapped
+  style?: StyleProp<ViewStyle>;
+}
+
+// Translation shown under (or beside) a transcript sentence in the bilingual view
+export default function TranslationLine({ translation, isPending, isMasked, style }: TranslationLineProps) {
+  const [isRevealed, setIsRevealed] = useState(false);
+
+  // Hide again whenever masking is switched back on
+  useEffect(() => {
+    setIsRevealed(false);
+  }, [isMasked]);
+
+  if (!translation) {
+    return isPending ? (
+      <Text style={[styles.translationText, styles.pendingText, style]}>Translating...</Text>
+    ) : null;
+  }
+
+  const isHidden = isMasked && !isRevealed;
+
+  return (
+    <TouchableOpacity
+      style={style}
+      onPress={() => setIsRevealed(!isRevealed)}
+      disabled={!isMasked}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.translationText, isHidden && styles.blurredText]}>
+        {translation}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  translationText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#555',
+  },
+  pendingText: {
+    color: '#bbb',
+    fontStyle: 'italic',
+  },
+  // Text shadow without the glyphs reads as blurred text on every platform
+  blurredText: {
+    color: 'transparent',
+    textShadowColor: 'rgba(0, 0, 0, 0.35)',
+    textShadowOffset: { width: 0, height: 0 },
+    textShadowRadius: 8,
+  },
+});
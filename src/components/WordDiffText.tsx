@@ -0,0 +1,64 @@
+import React from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { WordDiff } from '../services/pronunciationService';
+
+interface WordDiffTextProps {
+  words: WordDiff[];
+}
+
+export const getScoreColor = (accuracy: number): string => {
+  if (accuracy >= 85) return '#10b981';
+  if (accuracy >= 60) return '#f59e0b';
+  return '#ef4444';
+};
+
+const renderWord = (word: WordDiff, index: number) => {
+  switch (word.type) {
+    case 'correct':
+      return <Text key={index} style={styles.correctWord}>{word.expected} </Text>;
+    case 'missing':
+      return <Text key={index} style={styles.missingWord}>{word.expected} </Text>;
+    case 'substituted':
+      return (
+        <Text key={index} style={styles.substitutedWord}>
+          {word.expected}
+          <Text style={styles.recognizedWord}> ({word.recognized})</Text>{' '}
+        </Text>
+      );
+    case 'extra':
+      return <Text key={index} style={styles.extraWord}>+{word.recognized} </Text>;
+  }
+};
+
+// Word-level diff: correct in green, missing struck through, substitutions with what was said/typed
+export default function WordDiffText({ words }: WordDiffTextProps) {
+  return <Text style={styles.words}>{words.map(renderWord)}</Text>;
+}
+
+const styles = StyleSheet.create({
+  words: {
+    marginTop: 6,
+    fontSize: 14,
+    lineHeight: 22,
+  },
+  correctWord: {
+    color: '#10b981',
+  },
+  missingWord: {
+    color: '#ef4444',
+    textDecorationLine: 'line-through',
+  },
+  substitutedWord: {
+    color: '#f59e0b',
+    fontWeight: 'bold',
+  },
+  recognizedWord: {
+    fontSize: 12,
+    fontWeight: 'normal',
+    color: '#999',
+  },
+  extraWord: {
+    color: '#999',
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet, ActivityIndicator, ScrollView } from 'react-native';
+import TTSService from '../services/ttsService';
+import { lookupWord, cleanWord, DictionaryEntry } from '../services/dictionaryService';
+import { saveWord, isWordSaved, VocabularySource } from '../services/vocabularyService';
+
+interface WordLookupSheetProps {
+  word: string | null; // null when closed
+  source: VocabularySource | null;
+  onClose: () => void;
+}
+
+// Bottom sheet with the dictionary entry for a tapped word
+export default function WordLookupSheet({ word, source, onClose }: WordLookupSheetProps) {
+  const [entry, setEntry] = useState<DictionaryEntry | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const cleanedWord = word ? cleanWord(word) : '';
+
+  useEffect(() => {
+    if (!cleanedWord) return;
+
+    let cancelled = false;
+    setEntry(null);
+    setError(null);
+    setSaved(false);
+    setLoading(true);
+
+    lookupWord(cleanedWord)
+      .then(result => {
+        if (cancelled) return;
+        setEntry(result);
+        if (!result) {
+          setError('No definition found');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load the definition');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    if (source) {
+      isWordSaved(cleanedWord, source.videoId, source.start)
+        .then(result => !cancelled && setSaved(result))
+        .catch(() => {});
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cleanedWord, source?.videoId, source?.start]);
+
+  const handlePronounce = () => {
+    TTSService.stop();
+    TTSService.speakWithExpoSpeech(cleanedWord);
+  };
+
+  const handleSave = async () => {
+    if (!source || saved) return;
+
+    const firstMeaning = entry?.meanings[0];
+    try {
+      await saveWord({
+        ...source,
+        word: entry?.word || cleanedWord,
+        definition: firstMeaning?.definitions[0] || '',
+        partOfSpeech: firstMeaning?.partOfSpeech,
+        phonetic: entry?.phonetic,
+      });
+      setSaved(true);
+    } catch (error) {
+      console.error('Failed to save word:', error);
+      setError('Could not save this word');
+    }
+  };
+
+  return (
+    <Modal
+      visible={!!word}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <View style={styles.header}>
+            <View style={styles.titleRow}>
+              <Text style={styles.word}>{entry?.word || cleanedWord}</Text>
+              {entry?.phonetic && <Text style={styles.phonetic}>{entry.phonetic}</Text>}
+            </View>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="small" color="#667eea" style={styles.loading} />
+          ) : (
+            <ScrollView style={styles.meanings}>
+              {error && <Text style={styles.errorText}>{error}</Text>}
+              {entry?.meanings.map((meaning, index) => (
+                <View key={`${meaning.partOfSpeech}-${index}`} style={styles.meaning}>
+                  <Text style={styles.partOfSpeech}>{meaning.partOfSpeech}</Text>
+                  {meaning.definitions.map((definition, i) => (
+                    <Text key={i} style={styles.definition}>
+                      {i + 1}. {definition}
+                    </Text>
+                  ))}
+                  {meaning.example && (
+                    <Text style={styles.example}>"{meaning.example}"</Text>
+                  )}
+                </View>
+              ))}
+            </ScrollView>
+          )}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.button} onPress={handlePronounce}>
+              <Text style={styles.buttonText}>🔊 Pronounce</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.saveButton, (saved || !source) && styles.disabledButton]}
+              onPress={handleSave}
+              disabled={saved || !source}
+            >
+              <Text style={[styles.buttonText, styles.saveButtonText]}>
+                {saved ? '✓ Saved' : '📚 Save to Vocabulary'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 15,
+    borderTopRightRadius: 15,
+    padding: 20,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  titleRow: {
+    flex: 1,
+  },
+  word: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  phonetic: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 5,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: '#666',
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  meanings: {
+    marginBottom: 15,
+  },
+  meaning: {
+    marginBottom: 12,
+  },
+  partOfSpeech: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontStyle: 'italic',
+    color: '#667eea',
+    marginBottom: 4,
+  },
+  definition: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 21,
+    marginBottom: 2,
+  },
+  example: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#cc6666',
+    marginVertical: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+  },
+  saveButton: {
+    backgroundColor: '#667eea',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  saveButtonText: {
+    color: 'white',
+  },
+});
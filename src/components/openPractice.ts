@@ -0,0 +1,30 @@
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../App';
+import { getMediaSource } from '../services/mediaSourceService';
+import { isTextScriptId } from '../services/textPracticeService';
+import WebAlert from './WebAlert';
+
+// Reopen practice for a media id saved elsewhere (review cards, vocabulary).
+// Local files and text scripts need their source - a bare id would open as a YouTube video.
+export const openPractice = async (
+  navigation: Pick<NativeStackNavigationProp<RootStackParamList>, 'navigate'>,
+  videoId: string,
+  videoTitle: string
+): Promise<void> => {
+  try {
+    const mediaSource = await getMediaSource(videoId);
+    if (!mediaSource) {
+      WebAlert.alert(
+        isTextScriptId(videoId) ? 'Script Not Found' : 'File Not Found',
+        isTextScriptId(videoId)
+          ? 'This script was deleted. Paste it again from the home screen.'
+          : 'This file is no longer on this device. Add it again from the home screen.'
+      );
+      return;
+    }
+    navigation.navigate('ScriptPractice', { videoId, videoTitle, mediaSource });
+  } catch (error) {
+    console.error('Failed to open practice:', error);
+    WebAlert.alert('Error', 'Failed to open practice');
+  }
+};
@@ -51,6 +51,12 @@ export const YOUTUBE_CONFIG = {
   IDEAL_DURATION_MINUTES: 6,
 };
 
+// Dictionary lookup configuration (Free Dictionary API)
+export const DICTIONARY_CONFIG = {
+  BASE_URL: 'https://api.dictionaryapi.dev/api/v2/entries/en',
+  TIMEOUT: 10000,
+};
+
 // Log current configuration for debugging
 console.log('🔧 API Configuration:', {
   baseUrl: API_CONFIG.BASE_URL,
@@ -0,0 +1,135 @@
+// About 2,000 high-frequency English words (base forms) - roughly the vocabulary of an A2-B1 learner.
+// Words outside this list (after stripping common inflections) count as "rare" when estimating difficulty.
+const COMMON_WORDS_TEXT = `
+the be to of and a in that have i it for not on with he as you do at this but his by from they we say her she
+or an will my one all would there their what so up out if about who get which go me when make can like time no
+just him know take people into year your good some could them see other than then now look only come its over
+think also back after use two how our work first well way even new want because any these give day most us is
+are was were been has had did said made got went going thing man woman child world life hand part place case
+week company system program question government number night point home water room mother area money story
+fact month lot right study book eye job word business issue side kind head house service friend father power
+hour game line end member law car city community name president team minute idea kid body information school
+face others level office door health person art war history party result change morning reason research girl
+guy moment air teacher force education foot boy age policy everything process music market sense nation plan
+college interest death experience effect class control care field development role effort rate heart drug show
+leader light voice wife police mind price report decision son view relationship town road arm difference value
+building action model season society tax director position player record paper space ground form event
+official matter center couple site project activity star table need court oil situation cost industry figure
+street image phone data picture practice piece land product doctor wall patient worker news test movie north
+love support technology step baby computer type attention film tree source organization hair window evidence
+population truth song chance brother sister daughter husband family student state country problem group public
+course bit period rest answer shot kitchen store rule media mouth wind fire skin seat front coffee tea food
+dinner lunch breakfast bed bathroom chair box bag bottle glass cup plate key card ticket shop bank hospital
+church hotel restaurant airport station train bus plane ship boat bike river sea lake mountain island beach
+forest garden park farm village bridge floor roof corner sky sun moon rain snow weather summer winter spring
+fall autumn animal dog cat bird fish horse cow chicken egg meat bread rice fruit apple milk sugar salt color
+red blue green yellow black white brown gray pink orange purple dark bright clothes shirt dress shoe hat coat
+pocket ring watch gift letter email message page list note sign map photo camera screen video internet website
+app online account password file address meeting interview conversation speech language english sentence
+grammar vocabulary accent lesson homework exam grade university degree subject science math chemistry biology
+physics economics politics election vote campaign minister king queen army soldier enemy weapon gun peace
+freedom justice crime prison judge lawyer trial victim criminal officer safety danger risk accident injury
+pain disease illness virus medicine treatment surgery nurse blood bone brain stomach tooth leg knee finger
+nose ear neck shoulder chest smile tear feeling emotion fear anger joy hope dream wish doubt worry stress
+pressure trouble mistake error fault success failure win loss victory goal score match race sport football
+soccer basketball baseball tennis golf exercise gym fitness diet weight size shape height length width
+distance speed direction top bottom middle edge surface inside outside behind above below between among across
+through toward along around against without within during before since until while although though unless
+whether yes yeah okay ok hey hi hello bye goodbye please thanks thank sorry excuse welcome sure maybe perhaps
+really very quite pretty too enough almost always never often sometimes usually ever still already yet soon
+later again once twice today tonight tomorrow yesterday ago early late recently finally actually probably
+certainly definitely exactly especially simply basically literally totally completely absolutely nearly hardly
+rather instead either neither both each every many much more less few little several whole half own same
+different such another next last certain main major minor general special particular real true false clear
+possible impossible important necessary available popular common similar simple easy hard difficult free full
+empty open close closed ready able unable likely unlikely big small large long short high low tall old young
+fast slow quick hot cold warm cool wet dry clean dirty heavy strong weak soft loud quiet rich poor cheap
+expensive happy sad angry afraid scared tired sick healthy hungry busy lucky funny serious nice mean fine
+great bad better best worse worst wrong beautiful ugly cute smart stupid crazy amazing awesome terrible awful
+wonderful perfect normal strange weird interesting boring exciting excited interested surprised worried
+nervous proud famous human natural social political economic national international local personal private
+physical mental final recent current former future past present modern traditional american foreign global
+single double total huge tiny wide deep safe dangerous ask tell talk speak call reply explain describe mention
+discuss argue agree disagree suggest recommend advise warn promise offer invite apologize complain admit deny
+refuse accept allow let help try keep start begin stop finish continue stay leave arrive return move run walk
+jump fly drive ride travel visit meet join follow lead bring carry send receive hold catch throw push pull
+pick drop rise raise lift put set lay sit stand lie sleep wake live die kill hurt break fix build create
+design develop produce grow turn fill cover hide appear disappear seem become remain happen occur cause affect
+include involve contain consider decide choose prefer expect wait prepare learn teach read write draw paint
+sing dance play listen hear notice feel touch taste smell eat drink cook wash buy sell pay spend save earn
+lose share lend borrow hate enjoy miss remember forget believe understand realize recognize imagine wonder
+guess suppose count depend trust bother relax laugh cry shout scream whisper fight kick hit shoot attack
+protect defend serve manage handle deal solve check measure compare improve increase decrease reduce add
+remove replace provide supply require demand order deliver charge fail succeed achieve reach pass cross enter
+exit climb swim sail launch announce publish print post text click download upload search browse edit review
+rank elect throughout however therefore moreover meanwhile otherwise anyway anyhow somehow somewhere anywhere
+everywhere nowhere someone anyone everyone something anything nothing somebody anybody everybody nobody none
+whatever whenever wherever whoever whichever myself yourself himself herself itself ourselves themselves mine
+yours hers ours theirs whose whom why where here three four five six seven eight nine ten eleven twelve twenty
+thirty forty fifty hundred thousand million billion second third fourth fifth dozen pair percent monday
+tuesday wednesday thursday friday saturday sunday january february march april may june july august september
+october november december mr mrs ms dr oh ah uh um wow huh hmm gonna wanna gotta kinda sorta according act
+adult advantage advice affair afford agency agent agreement ahead aim alone alright amount ancient annual
+anxious apart apartment appeal apply approach approve argument arrange arrest article artist aside aspect
+assume attach attempt attend attitude audience author authority avoid award aware away background balance ball
+band bar base basic basis battle bear beat beauty bedroom beer behavior belief belong benefit beyond bill
+birth birthday bite blame blind block blow board bomb bond border born boss bound brand brave breath brief
+brilliant broad budget burn button cake calm cancer candidate capable capital captain career careful cash cast
+cell challenge champion channel chapter character chart cheek cheese chief choice cigarette circle citizen
+civil claim classic client climate clock cloud club coach coast code collect collection column combination
+combine comfort comfortable command comment commercial commit commitment committee communicate comparison
+compete competition complete complex concept concern concerned concert conclusion condition conference
+confidence confident conflict confuse connect connection conscious consequence constant construct consumer
+contact content contest context contract contrast contribute convince copy correct council counter county
+courage crash cream credit crew crisis critic critical criticism crowd crucial culture curious customer cut
+cycle damage date dead dear debate debt decade defense delay department deposit depth desert deserve desire
+desk despite destroy detail determine device digital direct dirt disaster discover discovery dish display
+district divide document dollar draft drama due dust duty eager earth east eastern easily economy editor
+educate effective efficient elderly element else emergency employ employee employer encourage energy engage
+engine engineer enormous ensure entire entirely environment equal equipment escape essay essential establish
+estate estimate ethnic evening eventually evil exact examine example excellent except exchange exist existence
+expand experiment expert explore expose express extend extra extreme fair faith familiar fan fantastic far
+fashion fat favor favorite feature fee female fence festival fiction finance financial fit flag flat flight
+float flow flower focus fold folk fool forever forgive formal fortune forward frame frankly freeze frequent
+fresh fuel fun function fund furniture gain gap gas gate gather gender generate generation gentle gentleman
+giant glad god gold golden grab grand grandfather grandmother grass grave greet guard guest guide guilty habit
+hall hang happiness harm headline heat heaven hell helpful hero highway hill hire hole holiday honest honey
+honor horrible host household housing humor hunt hurry ice identity ignore ill illegal impact imply impose
+impress impression incident income indeed independent indicate individual influence inform initial innocent
+insist instance institution instruction instrument insurance intend intense intention internal introduce
+invest investigate investment iron item jacket joke journey juice junior keen kiss knock knowledge label labor
+lack lady laptop layer lazy league lean leather legal library license lid limit link lip liquid load loan
+location lock lonely loose lord luck mad magazine mail maintain majority male manager manner mark marriage
+married mass master material maximum meal meaning medical medium memory menu mess metal method midnight
+military mirror mission mix mobile mood moral motor mount mouse movement murder muscle museum mystery narrow
+native nature nearby neat negative neighbor neighborhood nerve network noise nor normally novel nuclear object
+obvious obviously occasion ocean odd offense ordinary organize origin original outcome outfit output oven
+overall owe owner pace pack package panel parent parking partner passenger passion path pattern peak pen
+pencil pension perform performance permanent permission personality perspective pet phase philosophy pile
+pilot pin pitch plant plastic platform pleasant pleasure plenty poem poet poetry pole pool pop port portion
+pose positive possess possibility pot potato potential pound pour powerful practical pray prayer predict
+pregnant presence preserve press pretend prevent previous pride priest primary prime prince principle priority
+prize probable procedure professor profile profit progress promote proof proper property proposal propose
+prospect prove psychology punch punish purpose pursue puzzle qualify quality quarter quote racism radio rail
+range rare rarely rat raw react reaction reader reality reasonable recall recipe recover reflect reform regard
+region regular reject relate relation relative release relief religion religious rely remind remote rent
+repair repeat represent request rescue resource respect respond response responsibility responsible retire
+reveal revenue revolution reward rid rock romantic root rope rough round route routine row royal rub rubbish
+rush salad sale sample sand satisfy sauce scale scene schedule scheme scholar secret secretary section sector
+secure seek select self senior sensitive separate series settle severe sex shadow shake shame sharp sheet
+shelf shell shift shine shock shore shut shy sight silence silly silver sink sir skill slice slide slightly
+slip smoke smooth snake soap software soil solid solution somewhat soul sound soup south southern spare
+speaker specific spell spirit split spot spread square stable staff stage stair stake standard stare status
+steal steel stick stock stone storm straight stranger strategy stream strength stretch strike string stuff
+style sudden suddenly suffer suit suitable summary super surely surprise surround survey survive suspect sweet
+swing symbol sympathy talent target task technique teenager temperature temporary tend tent term terrific
+theater theme theory thick thin threat threaten throat thus tie tight till tip title toe together toilet tone
+tongue tool topic tough tour tourist towel tower track trade tradition traffic tragedy transfer transform
+translate transport trap trash treat trend trick trip troop truck tube tune twin typical uncle union unique
+unit universe upon upper upset urban urge used useful user usual vacation valley van variety various vast
+vehicle version violence violent virtue visible vision visual vital volume volunteer wage wander waste wave
+wealth wear web wedding weekend weigh west western wheel wild willing wine wing winner wise witness wood
+wooden worth wound wrap yard yell youth zone
+`;
+
+export const COMMON_WORDS: Set<string> = new Set(COMMON_WORDS_TEXT.trim().split(/\s+/));
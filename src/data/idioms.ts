@@ -0,0 +1,100 @@
+// Common idioms and phrasal expressions that learners rarely understand word by word.
+// Matched as whole phrases against lowercased transcript text.
+export const IDIOMS: string[] = [
+  'a piece of cake',
+  'at the end of the day',
+  'back to square one',
+  'beat around the bush',
+  'better late than never',
+  'bite the bullet',
+  'break the ice',
+  'call it a day',
+  'cut corners',
+  'cut to the chase',
+  'down to earth',
+  'easier said than done',
+  'every now and then',
+  'figure out',
+  'get out of hand',
+  'get the hang of',
+  'give it a shot',
+  'go the extra mile',
+  'hang in there',
+  'hit the nail on the head',
+  'hit the road',
+  'in a nutshell',
+  'in the long run',
+  'it is what it is',
+  'keep an eye on',
+  'kill two birds with one stone',
+  'last but not least',
+  'let the cat out of the bag',
+  'make ends meet',
+  'miss the boat',
+  'no brainer',
+  'not my cup of tea',
+  'on the same page',
+  'on the fence',
+  'once in a blue moon',
+  'out of the blue',
+  'over the moon',
+  'pull your leg',
+  'rule of thumb',
+  'sit tight',
+  'so far so good',
+  'speak of the devil',
+  'take it easy',
+  'the ball is in your court',
+  'the best of both worlds',
+  'through thick and thin',
+  'to make a long story short',
+  'long story short',
+  'under the weather',
+  'up in the air',
+  'wrap up',
+  'you can say that again',
+  'at the drop of a hat',
+  'bite off more than you can chew',
+  'blessing in disguise',
+  'burn the midnight oil',
+  'come up with',
+  'cross that bridge',
+  'get cold feet',
+  'get your act together',
+  'give someone the benefit of the doubt',
+  'go back to the drawing board',
+  'hit the sack',
+  'in hot water',
+  'jump on the bandwagon',
+  'keep your chin up',
+  'learn the ropes',
+  'let off steam',
+  'look forward to',
+  'on thin ice',
+  'play it by ear',
+  'put up with',
+  'run out of',
+  'see eye to eye',
+  'spill the beans',
+  'the last straw',
+  'think outside the box',
+  'turn a blind eye',
+  'when pigs fly',
+  'a dime a dozen',
+  'ahead of the curve',
+  'across the board',
+  'bottom line',
+  'game changer',
+  'move the needle',
+  'low-hanging fruit',
+  'touch base',
+  'at stake',
+  'by and large',
+  'for the time being',
+  'in the meantime',
+  'more or less',
+  'as a matter of fact',
+  'on the other hand',
+  'all of a sudden',
+  'from scratch',
+];
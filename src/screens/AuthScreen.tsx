@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../App';
+import { signIn, signUp } from '../services/authService';
+import { mergeGuestHistory } from '../services/historyService';
+import WebAlert from '../components/WebAlert';
+
+type AuthScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Auth'>;
+type AuthScreenRouteProp = RouteProp<RootStackParamList, 'Auth'>;
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Sign in and sign up share one form; sign up only adds the name field
+export default function AuthScreen() {
+  const navigation = useNavigation<AuthScreenNavigationProp>();
+  const route = useRoute<AuthScreenRouteProp>();
+  const [mode, setMode] = useState(route.params.mode);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const isSignUp = mode === 'signUp';
+
+  useEffect(() => {
+    navigation.setOptions({ title: isSignUp ? 'Create Account' : 'Sign In' });
+  }, [isSignUp]);
+
+  const validate = (): string | null => {
+    if (!/^\S+@\S+\.\S+$/.test(email.trim())) return 'Please enter a valid email address';
+    if (isSignUp && password.length < MIN_PASSWORD_LENGTH) {
+      return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    if (!password) return 'Please enter your password';
+    return null;
+  };
+
+  const handleSubmit = async () => {
+    const validationError = validate();
+    if (validationError) {
+      WebAlert.alert('Error', validationError);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const user = isSignUp ? await signUp(email, password, name) : await signIn(email, password);
+
+      // Videos practiced before signing in move into the account
+      let mergedCount = 0;
+      try {
+        mergedCount = await mergeGuestHistory();
+      } catch (error) {
+        console.warn('⚠️ Guest history merge failed, will retry on next sign in:', error);
+      }
+
+      WebAlert.alert(
+        isSignUp ? 'Welcome!' : 'Welcome back!',
+        `Signed in as ${user.name || user.email}.` +
+          (mergedCount > 0 ? ` ${mergedCount} videos from this device were added to your history.` : ''),
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error) {
+      console.error('❌ Authentication failed:', error);
+      WebAlert.alert(
+        'Error',
+        error instanceof Error ? error.message : isSignUp ? 'Failed to create account' : 'Failed to sign in'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.title}>{isSignUp ? 'Create your account' : 'Sign in to SpeakFlow'}</Text>
+        <Text style={styles.subtitle}>
+          Your learning history is saved to your account and follows you across devices.
+        </Text>
+
+        {isSignUp && (
+          <TextInput
+            style={styles.input}
+            placeholder="Name (optional)"
+            placeholderTextColor="#999"
+            value={name}
+            onChangeText={setName}
+            autoComplete="name"
+          />
+        )}
+        <TextInput
+          style={styles.input}
+          placeholder="Email"
+          placeholderTextColor="#999"
+          value={email}
+          onChangeText={setEmail}
+          autoCapitalize="none"
+          autoComplete="email"
+          keyboardType="email-address"
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Password"
+          placeholderTextColor="#999"
+          value={password}
+          onChangeText={setPassword}
+          secureTextEntry={true}
+          autoComplete={isSignUp ? 'new-password' : 'current-password'}
+          onSubmitEditing={handleSubmit}
+          returnKeyType="go"
+        />
+
+        <TouchableOpacity
+          style={[styles.submitButton, submitting && styles.disabledButton]}
+          onPress={handleSubmit}
+          disabled={submitting}
+        >
+          {submitting ? (
+            <ActivityIndicator color="#fff" size="small" />
+          ) : (
+            <Text style={styles.submitButtonText}>{isSignUp ? 'Create Account' : 'Sign In'}</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.switchButton}
+          onPress={() => setMode(isSignUp ? 'signIn' : 'signUp')}
+          disabled={submitting}
+        >
+          <Text style={styles.switchText}>
+            {isSignUp ? 'Already have an account? Sign in' : "Don't have an account? Create one"}
+          </Text>
+        </TouchableOpacity>
+
+        <Text style={styles.guestNote}>
+          You can keep practicing without an account - your history stays on this device and is added to
+          your account when you sign in.
+        </Text>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    marginBottom: 12,
+  },
+  submitButton: {
+    backgroundColor: '#667eea',
+    paddingVertical: 15,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  switchButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  switchText: {
+    fontSize: 15,
+    color: '#667eea',
+    fontWeight: '600',
+  },
+  guestNote: {
+    fontSize: 13,
+    color: '#999',
+    textAlign: 'center',
+    lineHeight: 18,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,341 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+} from 'react-native';
+import { useRoute, useNavigation, useFocusEffect, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../App';
+import {
+  getCourse,
+  getCourseProgress,
+  setVideoCompleted,
+  removeVideoFromCourse,
+  moveCourseVideo,
+  summarizeCourse,
+  isVideoCompleted,
+  Course,
+  CourseVideo,
+  CourseProgress,
+} from '../services/courseService';
+import { YOUTUBE_CONFIG } from '../config/api';
+import { Ionicons } from '@expo/vector-icons';
+import WebAlert from '../components/WebAlert';
+
+type CourseScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Course'>;
+type CourseScreenRouteProp = RouteProp<RootStackParamList, 'Course'>;
+
+export default function CourseScreen() {
+  const route = useRoute<CourseScreenRouteProp>();
+  const navigation = useNavigation<CourseScreenNavigationProp>();
+  const { courseId } = route.params;
+
+  const [course, setCourse] = useState<Course | null>(null);
+  const [progress, setProgress] = useState<CourseProgress>({});
+  const [loading, setLoading] = useState(true);
+
+  const loadCourse = async () => {
+    try {
+      const loaded = await getCourse(courseId);
+      setCourse(loaded);
+      setProgress(await getCourseProgress());
+      if (loaded) {
+        navigation.setOptions({ title: loaded.title });
+      }
+    } catch (error) {
+      console.error('Failed to load course:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Completion changes while practicing, so reload when coming back
+  useFocusEffect(
+    useCallback(() => {
+      loadCourse();
+    }, [courseId])
+  );
+
+  const openVideo = (video: CourseVideo) => {
+    navigation.navigate('ScriptPractice', {
+      videoId: video.videoId,
+      videoTitle: video.title,
+      courseId,
+    });
+  };
+
+  const toggleCompleted = async (video: CourseVideo) => {
+    try {
+      setProgress(await setVideoCompleted(video.videoId, !isVideoCompleted(progress, video.videoId)));
+    } catch (error) {
+      WebAlert.alert('Error', 'Failed to update progress');
+    }
+  };
+
+  const handleMove = async (video: CourseVideo, direction: -1 | 1) => {
+    try {
+      setCourse(await moveCourseVideo(courseId, video.videoId, direction));
+    } catch (error) {
+      WebAlert.alert('Error', 'Failed to reorder playlist');
+    }
+  };
+
+  const handleRemove = (video: CourseVideo) => {
+    WebAlert.alert(
+      'Remove Video',
+      `Remove "${video.title}" from this playlist?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setCourse(await removeVideoFromCourse(courseId, video.videoId));
+            } catch (error) {
+              WebAlert.alert('Error', 'Failed to remove video');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#667eea" />
+      </View>
+    );
+  }
+
+  if (!course) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.emptyText}>This course is no longer available</Text>
+      </View>
+    );
+  }
+
+  const summary = summarizeCourse(course, progress);
+  const isPlaylist = course.kind === 'playlist';
+  const percent = summary.totalCount > 0 ? summary.completedCount / summary.totalCount : 0;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.summaryCard}>
+        {course.description && <Text style={styles.description}>{course.description}</Text>}
+        <Text style={styles.progressText}>
+          {summary.completedCount} of {summary.totalCount} videos completed
+        </Text>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${Math.round(percent * 100)}%` }]} />
+        </View>
+
+        {summary.nextVideo ? (
+          <TouchableOpacity style={styles.continueButton} onPress={() => openVideo(summary.nextVideo!)}>
+            <Text style={styles.continueButtonText}>
+              {summary.completedCount > 0 ? 'Continue' : 'Start'}: {summary.nextVideo.title}
+            </Text>
+          </TouchableOpacity>
+        ) : summary.totalCount > 0 ? (
+          <Text style={styles.doneText}>🎉 Course complete!</Text>
+        ) : null}
+      </View>
+
+      {course.videos.length === 0 && (
+        <Text style={styles.emptyText}>
+          No videos yet. Open a video and tap "Add to Playlist" to add it here.
+        </Text>
+      )}
+
+      {course.videos.map((video, index) => {
+        const completed = isVideoCompleted(progress, video.videoId);
+        const isNext = summary.nextVideo?.videoId === video.videoId;
+
+        return (
+          <TouchableOpacity
+            key={video.videoId}
+            style={[styles.videoItem, isNext && styles.nextVideoItem, video.tooLong && styles.tooLongVideoItem]}
+            onPress={() => openVideo(video)}
+          >
+            <TouchableOpacity style={styles.checkButton} onPress={() => toggleCompleted(video)}>
+              <Ionicons
+                name={completed ? 'checkmark-circle' : 'ellipse-outline'}
+                size={24}
+                color={completed ? '#10b981' : '#d1d5db'}
+              />
+            </TouchableOpacity>
+            <Image source={{ uri: video.thumbnail }} style={styles.thumbnail} />
+            <View style={styles.videoInfo}>
+              <Text style={styles.videoTitle} numberOfLines={2}>{index + 1}. {video.title}</Text>
+              <Text style={styles.videoMeta} numberOfLines={1}>
+                {video.channelTitle}{video.duration ? ` • ${video.duration}` : ''}
+              </Text>
+              {isNext && <Text style={styles.nextLabel}>Up next</Text>}
+              {video.tooLong && (
+                <Text style={styles.tooLongLabel}>
+                  ⚠️ Over {YOUTUBE_CONFIG.MAX_DURATION_MINUTES} min - not in the practice order
+                </Text>
+              )}
+            </View>
+            {isPlaylist && (
+              <View style={styles.editActions}>
+                <TouchableOpacity onPress={() => handleMove(video, -1)} disabled={index === 0}>
+                  <Ionicons name="chevron-up" size={18} color={index === 0 ? '#e5e7eb' : '#667eea'} />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleRemove(video)}>
+                  <Ionicons name="close" size={18} color="#ef4444" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleMove(video, 1)}
+                  disabled={index === course.videos.length - 1}
+                >
+                  <Ionicons
+                    name="chevron-down"
+                    size={18}
+                    color={index === course.videos.length - 1 ? '#e5e7eb' : '#667eea'}
+                  />
+                </TouchableOpacity>
+              </View>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  description: {
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  progressText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#e5e7eb',
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#10b981',
+  },
+  continueButton: {
+    backgroundColor: '#667eea',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  continueButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  doneText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#10b981',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  videoItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 10,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  nextVideoItem: {
+    borderColor: '#667eea',
+  },
+  tooLongVideoItem: {
+    opacity: 0.6,
+  },
+  checkButton: {
+    paddingRight: 8,
+  },
+  thumbnail: {
+    width: 96,
+    height: 54,
+    borderRadius: 6,
+    marginRight: 10,
+  },
+  videoInfo: {
+    flex: 1,
+  },
+  videoTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  videoMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  nextLabel: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#667eea',
+    marginTop: 2,
+  },
+  tooLongLabel: {
+    fontSize: 12,
+    color: '#d97706',
+    marginTop: 2,
+  },
+  editActions: {
+    alignItems: 'center',
+    gap: 4,
+    paddingLeft: 8,
+  },
+});
@@ -0,0 +1,287 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../App';
+import {
+  getCourses,
+  getCourseProgress,
+  createPlaylist,
+  deleteCourse,
+  refreshCuratedCourses,
+  syncCourses,
+  summarizeCourse,
+  Course,
+  CourseProgress,
+} from '../services/courseService';
+import { Ionicons } from '@expo/vector-icons';
+import WebAlert from '../components/WebAlert';
+
+type CoursesScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Courses'>;
+
+export default function CoursesScreen() {
+  const navigation = useNavigation<CoursesScreenNavigationProp>();
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [progress, setProgress] = useState<CourseProgress>({});
+  const [loading, setLoading] = useState(true);
+  const [newPlaylistTitle, setNewPlaylistTitle] = useState('');
+
+  const loadCourses = async () => {
+    try {
+      setCourses(await getCourses());
+      setProgress(await getCourseProgress());
+    } catch (error) {
+      console.error('Failed to load courses:', error);
+      WebAlert.alert('Error', 'Failed to load courses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Show local courses right away, then pick up server changes
+  useFocusEffect(
+    useCallback(() => {
+      loadCourses();
+      Promise.all([
+        refreshCuratedCourses().catch(error => console.warn('⚠️ Failed to load curated courses:', error)),
+        syncCourses().catch(error => console.warn('⚠️ Course sync failed:', error)),
+      ]).then(loadCourses);
+    }, [])
+  );
+
+  const handleCreatePlaylist = async () => {
+    if (!newPlaylistTitle.trim()) return;
+
+    try {
+      const playlist = await createPlaylist(newPlaylistTitle);
+      setNewPlaylistTitle('');
+      setCourses(prev => [playlist, ...prev]);
+    } catch (error) {
+      WebAlert.alert('Error', 'Failed to create playlist');
+    }
+  };
+
+  const handleDelete = (course: Course) => {
+    WebAlert.alert(
+      course.kind === 'playlist' ? 'Delete Playlist' : 'Remove Course',
+      `Remove "${course.title}"? Your progress on its videos is kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCourse(course.id);
+              setCourses(prev => prev.filter(c => c.id !== course.id));
+            } catch (error) {
+              WebAlert.alert('Error', 'Failed to remove course');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCourse = (course: Course) => {
+    const summary = summarizeCourse(course, progress);
+    const percent = summary.totalCount > 0 ? summary.completedCount / summary.totalCount : 0;
+
+    return (
+      <TouchableOpacity
+        key={course.id}
+        style={styles.courseItem}
+        onPress={() => navigation.navigate('Course', { courseId: course.id })}
+      >
+        <View style={styles.courseHeader}>
+          <Ionicons
+            name={course.kind === 'curated' ? 'school-outline' : 'list-outline'}
+            size={22}
+            color="#667eea"
+          />
+          <View style={styles.courseInfo}>
+            <Text style={styles.courseTitle} numberOfLines={1}>{course.title}</Text>
+            <Text style={styles.courseMeta}>
+              {summary.completedCount}/{summary.totalCount} videos completed
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(course)}>
+            <Ionicons name="trash-outline" size={20} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+        {course.description && (
+          <Text style={styles.courseDescription} numberOfLines={2}>{course.description}</Text>
+        )}
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${Math.round(percent * 100)}%` }]} />
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#667eea" />
+        <Text style={styles.loadingText}>Loading your courses...</Text>
+      </View>
+    );
+  }
+
+  const playlists = courses.filter(course => course.kind === 'playlist');
+  const curated = courses.filter(course => course.kind === 'curated');
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.createRow}>
+        <TextInput
+          style={styles.createInput}
+          placeholder="New playlist name..."
+          placeholderTextColor="#999"
+          value={newPlaylistTitle}
+          onChangeText={setNewPlaylistTitle}
+          onSubmitEditing={handleCreatePlaylist}
+          returnKeyType="done"
+        />
+        <TouchableOpacity
+          style={[styles.createButton, !newPlaylistTitle.trim() && styles.disabledButton]}
+          onPress={handleCreatePlaylist}
+          disabled={!newPlaylistTitle.trim()}
+        >
+          <Ionicons name="add" size={22} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.sectionTitle}>My Playlists</Text>
+      {playlists.length > 0 ? (
+        playlists.map(renderCourse)
+      ) : (
+        <Text style={styles.emptyText}>
+          Create a playlist here, then add videos from a video's detail page
+        </Text>
+      )}
+
+      {curated.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Courses</Text>
+          {curated.map(renderCourse)}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  createRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  createInput: {
+    flex: 1,
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  createButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#667eea',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+  },
+  courseItem: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  courseHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  courseInfo: {
+    flex: 1,
+  },
+  courseTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  courseMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  courseDescription: {
+    fontSize: 13,
+    color: '#374151',
+    marginTop: 8,
+    lineHeight: 18,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#e5e7eb',
+    marginTop: 12,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#10b981',
+  },
+});
@@ -16,23 +16,64 @@ import { RootStackParamList } from '../../App';
 import { getHistory, removeFromHistory, clearHistory, HistoryVideo, removeFromHistoryWithCache, clearHistoryWithCache } from '../services/historyService';
 import { Ionicons } from '@expo/vector-icons';
 import WebAlert from '../components/WebAlert';
+import OfflinePackButton from '../components/OfflinePackButton';
+import { getOfflinePacks, OfflinePack } from '../services/offlinePackService';
+import { getVideoDifficulties, DifficultyProfile } from '../services/difficultyService';
+import DifficultyBadge from '../components/DifficultyBadge';
+import { getCoursesByVideo, Course } from '../services/courseService';
 
 type HistoryScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'History'>;
 
+// Show downloaded videos as history entries when the server can't be reached
+const packToHistoryVideo = (pack: OfflinePack): HistoryVideo => ({
+  videoId: pack.videoId,
+  title: pack.video.title,
+  thumbnail: pack.video.thumbnail,
+  channelTitle: pack.video.channelTitle,
+  duration: pack.video.duration,
+  durationSeconds: 0,
+  transcriptSource: pack.transcript.source,
+  firstAccessed: pack.downloadedAt,
+  lastAccessed: pack.downloadedAt,
+  accessCount: 0,
+  hasAudio: true,
+  hasTranscript: true,
+  hasWhisperCache: pack.transcript.source === 'whisper',
+});
+
 export default function HistoryScreen() {
   const navigation = useNavigation<HistoryScreenNavigationProp>();
   const [history, setHistory] = useState<HistoryVideo[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [difficulties, setDifficulties] = useState<{ [videoId: string]: DifficultyProfile }>({});
+  const [coursesByVideo, setCoursesByVideo] = useState<{ [videoId: string]: Course[] }>({});
+
+  useEffect(() => {
+    getVideoDifficulties(history.map(video => video.videoId)).then(setDifficulties);
+    getCoursesByVideo()
+      .then(setCoursesByVideo)
+      .catch(error => console.warn('⚠️ Failed to load courses:', error));
+  }, [history]);
 
   const loadHistory = async () => {
     try {
       setLoading(true);
       const historyData = await getHistory();
       setHistory(historyData);
+      setIsOffline(false);
     } catch (error) {
       console.error('Failed to load history:', error);
-      Alert.alert('Error', 'Failed to load history');
+
+      const packs = await getOfflinePacks().catch(() => []);
+      if (packs.length > 0) {
+        console.log(`📦 Offline - showing ${packs.length} downloaded videos`);
+        setHistory(packs.map(packToHistoryVideo));
+        setIsOffline(true);
+      } else {
+        Alert.alert('Error', 'Failed to load history');
+      }
     } finally {
       setLoading(false);
     }
@@ -52,6 +93,15 @@ export default function HistoryScreen() {
   );
 
   const handleVideoPress = (video: HistoryVideo) => {
+    // Video details need the server, so go straight to the downloaded practice pack
+    if (isOffline) {
+      navigation.navigate('ScriptPractice', {
+        videoId: video.videoId,
+        videoTitle: video.title,
+      });
+      return;
+    }
+
     navigation.navigate('VideoDetail', {
       videoId: video.videoId,
       videoTitle: video.title,
@@ -218,8 +268,20 @@ export default function HistoryScreen() {
           {item.title}
         </Text>
         <Text style={styles.channelTitle}>{item.channelTitle}</Text>
+        {coursesByVideo[item.videoId] && (
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Course', { courseId: coursesByVideo[item.videoId][0].id })}
+          >
+            <Text style={styles.courseLabel} numberOfLines={1}>
+              📚 {coursesByVideo[item.videoId].map(course => course.title).join(', ')}
+            </Text>
+          </TouchableOpacity>
+        )}
         <View style={styles.metaRow}>
-          <Text style={styles.duration}>{item.duration}</Text>
+          <View style={styles.durationRow}>
+            <Text style={styles.duration}>{item.duration}</Text>
+            {difficulties[item.videoId] && <DifficultyBadge level={difficulties[item.videoId].level} />}
+          </View>
           <View style={styles.statusIcons}>
             {getStatusIcons(item)}
           </View>
@@ -233,12 +295,15 @@ export default function HistoryScreen() {
           </Text>
         </View>
       </View>
-      <TouchableOpacity
-        style={styles.removeButton}
-        onPress={() => handleRemoveVideo(item.videoId, item.title)}
-      >
-        <Ionicons name="trash-outline" size={20} color="#ef4444" />
-      </TouchableOpacity>
+      <View style={styles.itemActions}>
+        <OfflinePackButton videoId={item.videoId} title={item.title} compact />
+        <TouchableOpacity
+          style={styles.removeButton}
+          onPress={() => handleRemoveVideo(item.videoId, item.title)}
+        >
+          <Ionicons name="trash-outline" size={20} color="#ef4444" />
+        </TouchableOpacity>
+      </View>
     </TouchableOpacity>
   );
 
@@ -282,6 +347,13 @@ export default function HistoryScreen() {
         </View>
       ) : (
         <>
+          {isOffline && (
+            <View style={styles.offlineBanner}>
+              <Ionicons name="cloud-offline-outline" size={16} color="#92400e" />
+              <Text style={styles.offlineBannerText}>Offline - showing downloaded videos</Text>
+            </View>
+          )}
+
           <View style={styles.statsContainer}>
             <View style={styles.statItem}>
               <Text style={styles.statNumber}>{history.length}</Text>
@@ -458,6 +530,17 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 4,
   },
+  courseLabel: {
+    fontSize: 12,
+    color: '#667eea',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  durationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
   duration: {
     fontSize: 12,
     color: '#667eea',
@@ -491,4 +574,23 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  itemActions: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#fef3c7',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 10,
+    borderRadius: 8,
+  },
+  offlineBannerText: {
+    fontSize: 13,
+    color: '#92400e',
+    fontWeight: '600',
+  },
 }); 
\ No newline at end of file
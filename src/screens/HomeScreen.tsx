@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   View,
   Text,
@@ -6,10 +6,19 @@ import {
   TouchableOpacity,
   ScrollView,
   Dimensions,
+  Image,
+  ActivityIndicator,
 } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../../App';
+import * as DocumentPicker from 'expo-document-picker';
+import { getDueCards } from '../services/reviewService';
+import { addLocalMedia } from '../services/mediaSourceService';
+import { getCachedRecommendations, getRecommendations, Recommendation } from '../services/recommendationService';
+import { getCurrentUser, onAuthChange, signOut, AuthUser } from '../services/authService';
+import WebAlert from '../components/WebAlert';
+import DifficultyBadge from '../components/DifficultyBadge';
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Home'>;
 
@@ -17,6 +26,88 @@ const { width } = Dimensions.get('window');
 
 export default function HomeScreen() {
   const navigation = useNavigation<HomeScreenNavigationProp>();
+  const [dueCount, setDueCount] = useState(0);
+  const [isPickingFile, setIsPickingFile] = useState(false);
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+  const [loadingRecommendations, setLoadingRecommendations] = useState(true);
+  const [user, setUser] = useState<AuthUser | null>(null);
+
+  const loadRecommendations = () => {
+    setLoadingRecommendations(true);
+    getRecommendations()
+      .then(setRecommendations)
+      .catch(error => console.warn('⚠️ Failed to load recommendations:', error))
+      .finally(() => setLoadingRecommendations(false));
+  };
+
+  // Last picks first, then fresh ones once the history and searches come back
+  useEffect(() => {
+    getCachedRecommendations().then(cached => {
+      if (cached.length > 0) setRecommendations(cached);
+    });
+    loadRecommendations();
+  }, []);
+
+  // Signing in or out switches to another history, so the picks change too
+  useEffect(() => {
+    getCurrentUser().then(setUser);
+    return onAuthChange(newUser => {
+      setUser(newUser);
+      loadRecommendations();
+    });
+  }, []);
+
+  const handleSignOut = () => {
+    WebAlert.alert(
+      'Sign Out',
+      'Your account history stays on the server. Videos you practice while signed out are kept on this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: () => {
+            signOut().catch(error => console.error('Failed to sign out:', error));
+          },
+        },
+      ]
+    );
+  };
+
+  // Refresh the due count when returning from practice or review
+  useFocusEffect(
+    useCallback(() => {
+      getDueCards()
+        .then(cards => setDueCount(cards.length))
+        .catch(error => console.error('Failed to load review cards:', error));
+    }, [])
+  );
+
+  // Practice with the learner's own recording - transcribed by Whisper on the practice screen
+  const handlePracticeOwnFile = async () => {
+    try {
+      setIsPickingFile(true);
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['audio/*', 'video/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) {
+        return;
+      }
+
+      const media = await addLocalMedia(result.assets[0]);
+      navigation.navigate('ScriptPractice', {
+        videoId: media.id,
+        videoTitle: media.name,
+        mediaSource: media,
+      });
+    } catch (error) {
+      console.error('Failed to open local file:', error);
+      WebAlert.alert('Error', 'Could not open this file. Please try another audio or video file.');
+    } finally {
+      setIsPickingFile(false);
+    }
+  };
 
   return (
     <View style={styles.container}>
@@ -26,6 +117,27 @@ export default function HomeScreen() {
           <Text style={styles.subtitle}>Improve Your English Speaking Skills</Text>
         </View>
 
+        <View style={styles.accountBar}>
+          {user ? (
+            <>
+              <Text style={styles.accountText} numberOfLines={1}>👤 {user.name || user.email}</Text>
+              <TouchableOpacity onPress={handleSignOut}>
+                <Text style={styles.accountLink}>Sign Out</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <Text style={styles.accountText}>Practicing as a guest</Text>
+              <TouchableOpacity onPress={() => navigation.navigate('Auth', { mode: 'signIn' })}>
+                <Text style={styles.accountLink}>Sign In</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => navigation.navigate('Auth', { mode: 'signUp' })}>
+                <Text style={styles.accountLink}>Sign Up</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
         <View style={styles.content}>
           <Text style={styles.description}>
             Search YouTube videos, get transcripts, and practice speaking English with confidence.
@@ -45,8 +157,76 @@ export default function HomeScreen() {
             >
               <Text style={styles.historyButtonText}>Learning History</Text>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.historyButton, styles.stackedButton]}
+              onPress={() => navigation.navigate('Courses')}
+            >
+              <Text style={styles.historyButtonText}>Courses & Playlists</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.historyButton, styles.stackedButton]}
+              onPress={() => navigation.navigate('Review')}
+            >
+              <Text style={styles.historyButtonText}>
+                Review Sentences{dueCount > 0 ? ` (${dueCount} due)` : ''}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.historyButton, styles.stackedButton]}
+              onPress={() => navigation.navigate('Vocabulary')}
+            >
+              <Text style={styles.historyButtonText}>My Vocabulary</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.historyButton, styles.stackedButton]}
+              onPress={handlePracticeOwnFile}
+              disabled={isPickingFile}
+            >
+              <Text style={styles.historyButtonText}>
+                {isPickingFile ? 'Opening File...' : 'Practice My Own File'}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.historyButton, styles.stackedButton]}
+              onPress={() => navigation.navigate('TextPractice')}
+            >
+              <Text style={styles.historyButtonText}>Practice My Own Text</Text>
+            </TouchableOpacity>
           </View>
 
+          {(recommendations.length > 0 || loadingRecommendations) && (
+            <View style={styles.recommendations}>
+              <View style={styles.recommendationsHeader}>
+                <Text style={styles.recommendationsTitle}>✨ Recommended for You</Text>
+                {loadingRecommendations && <ActivityIndicator size="small" color="#fff" />}
+              </View>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.recommendationList}>
+                {recommendations.map(({ video, reasons, level }) => (
+                  <TouchableOpacity
+                    key={video.id}
+                    style={styles.recommendationCard}
+                    onPress={() => navigation.navigate('VideoDetail', { videoId: video.id, videoTitle: video.title })}
+                  >
+                    <Image source={{ uri: video.thumbnail }} style={styles.recommendationThumbnail} />
+                    <View style={styles.recommendationInfo}>
+                      <Text style={styles.recommendationVideoTitle} numberOfLines={2}>{video.title}</Text>
+                      <View style={styles.recommendationMeta}>
+                        {level && <DifficultyBadge level={level} />}
+                        {video.duration && <Text style={styles.recommendationDuration}>{video.duration}</Text>}
+                      </View>
+                      <Text style={styles.recommendationReason} numberOfLines={2}>{reasons[0]}</Text>
+                    </View>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+          )}
+
           <View style={styles.features}>
             <View style={styles.featureCard}>
               <Text style={styles.featureTitle}>🎯 Find Videos</Text>
@@ -101,6 +281,28 @@ const styles = StyleSheet.create({
     opacity: 0.9,
     textAlign: 'center',
   },
+  accountBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginBottom: 30,
+  },
+  accountText: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: '#fff',
+  },
+  accountLink: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#fff',
+    textDecorationLine: 'underline',
+  },
   content: {
     flex: 1,
     alignItems: 'center',
@@ -144,11 +346,66 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#fff',
   },
+  stackedButton: {
+    marginTop: 15,
+  },
   historyButtonText: {
     fontSize: 18,
     fontWeight: 'bold',
     color: '#fff',
   },
+  recommendations: {
+    width: '100%',
+    marginBottom: 30,
+  },
+  recommendationsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  recommendationsTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  recommendationList: {
+    gap: 12,
+  },
+  recommendationCard: {
+    width: Math.min(240, width * 0.65),
+    backgroundColor: '#fff',
+    borderRadius: 15,
+    overflow: 'hidden',
+  },
+  recommendationThumbnail: {
+    width: '100%',
+    aspectRatio: 16 / 9,
+  },
+  recommendationInfo: {
+    padding: 12,
+    gap: 6,
+  },
+  recommendationVideoTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  recommendationMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  recommendationDuration: {
+    fontSize: 12,
+    color: '#667eea',
+    fontWeight: '600',
+  },
+  recommendationReason: {
+    fontSize: 12,
+    color: '#666',
+    fontStyle: 'italic',
+  },
   features: {
     width: '100%',
   },
@@ -0,0 +1,326 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../App';
+import { getHistory } from '../services/historyService';
+import { getLocalMediaList } from '../services/mediaSourceService';
+import { getTextScripts } from '../services/textPracticeService';
+import { getDueCards, gradeReviewCard, ReviewCard, ReviewQuality } from '../services/reviewService';
+import SentenceClipPlayer from '../components/SentenceClipPlayer';
+import { Ionicons } from '@expo/vector-icons';
+import WebAlert from '../components/WebAlert';
+import { openPractice } from '../components/openPractice';
+
+type ReviewScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Review'>;
+
+const GRADE_BUTTONS: { label: string; quality: ReviewQuality; color: string }[] = [
+  { label: 'Again', quality: 1, color: '#ef4444' },
+  { label: 'Hard', quality: 3, color: '#f59e0b' },
+  { label: 'Good', quality: 4, color: '#10b981' },
+  { label: 'Easy', quality: 5, color: '#667eea' },
+];
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export default function ReviewScreen() {
+  const navigation = useNavigation<ReviewScreenNavigationProp>();
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showText, setShowText] = useState(false);
+  const [grading, setGrading] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const loadDueCards = async () => {
+    try {
+      setLoading(true);
+
+      // Review sentences from every video in the learning history
+      let historyVideoIds: string[] | undefined;
+      try {
+        const history = await getHistory();
+        // The learner's own files and texts aren't in the server history but are still reviewable
+        const localMedia = await getLocalMediaList();
+        const textScripts = await getTextScripts();
+        historyVideoIds = [
+          ...history.map(video => video.videoId),
+          ...localMedia.map(media => media.id),
+          ...textScripts.map(script => script.id),
+        ];
+      } catch (error) {
+        console.warn('⚠️ Failed to load history, reviewing all cards:', error);
+      }
+
+      const dueCards = await getDueCards(historyVideoIds);
+      setCards(dueCards);
+      setShowText(false);
+      console.log(`🧠 ${dueCards.length} sentences due for review`);
+    } catch (error) {
+      console.error('Failed to load review cards:', error);
+      WebAlert.alert('Error', 'Failed to load review cards');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload the queue when screen comes into focus
+  useFocusEffect(
+    useCallback(() => {
+      loadDueCards();
+    }, [])
+  );
+
+  const handleGrade = async (quality: ReviewQuality) => {
+    const card = cards[0];
+    if (!card || grading) return;
+
+    try {
+      setGrading(true);
+      const updated = await gradeReviewCard(card.id, quality);
+
+      setCards(prev => {
+        const remaining = prev.slice(1);
+        // Failed cards come back at the end of this session
+        if (updated && quality < 3) {
+          return [...remaining, updated];
+        }
+        return remaining;
+      });
+      setReviewedCount(prev => prev + 1);
+      setShowText(false);
+    } catch (error) {
+      console.error('Failed to grade review card:', error);
+      WebAlert.alert('Error', 'Failed to save review');
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#667eea" />
+        <Text style={styles.loadingText}>Loading your review queue...</Text>
+      </View>
+    );
+  }
+
+  const currentCard = cards[0];
+
+  if (!currentCard) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Ionicons name="checkmark-circle-outline" size={64} color="#10b981" />
+        <Text style={styles.emptyTitle}>All Caught Up!</Text>
+        <Text style={styles.emptyText}>
+          {reviewedCount > 0
+            ? `You reviewed ${reviewedCount} ${reviewedCount === 1 ? 'sentence' : 'sentences'}. Come back later for more.`
+            : 'Sentences you practice will come back here when they are due for review'}
+        </Text>
+        <TouchableOpacity
+          style={styles.historyButton}
+          onPress={() => navigation.navigate('History')}
+        >
+          <Text style={styles.historyButtonText}>Practice More Videos</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Review</Text>
+        <Text style={styles.remainingText}>{cards.length} due</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <TouchableOpacity
+            onPress={() => openPractice(navigation, currentCard.videoId, currentCard.videoTitle)}
+          >
+            <Text style={styles.videoTitle} numberOfLines={2}>
+              {currentCard.videoTitle}
+            </Text>
+          </TouchableOpacity>
+          <Text style={styles.timeText}>
+            {formatTime(currentCard.start)} - {formatTime(currentCard.end)}
+          </Text>
+
+          <SentenceClipPlayer
+            videoId={currentCard.videoId}
+            start={currentCard.start}
+            end={currentCard.end}
+          />
+
+          {showText ? (
+            <Text style={styles.sentenceText}>{currentCard.text}</Text>
+          ) : (
+            <TouchableOpacity style={styles.showButton} onPress={() => setShowText(true)}>
+              <Text style={styles.showButtonText}>👀 Show Sentence</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <Text style={styles.gradePrompt}>How well did you recall it?</Text>
+        <View style={styles.gradeRow}>
+          {GRADE_BUTTONS.map(button => (
+            <TouchableOpacity
+              key={button.label}
+              style={[styles.gradeButton, { backgroundColor: button.color }, grading && styles.disabledButton]}
+              onPress={() => handleGrade(button.quality)}
+              disabled={grading}
+            >
+              <Text style={styles.gradeButtonText}>{button.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  remainingText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#667eea',
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  videoTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  timeText: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  sentenceText: {
+    fontSize: 20,
+    lineHeight: 28,
+    color: '#333',
+    textAlign: 'center',
+  },
+  showButton: {
+    borderWidth: 1,
+    borderColor: '#667eea',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  showButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#667eea',
+  },
+  gradePrompt: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  gradeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  gradeButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  gradeButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 8,
+    lineHeight: 24,
+  },
+  historyButton: {
+    backgroundColor: '#667eea',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 24,
+  },
+  historyButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -8,6 +8,7 @@ import {
   ActivityIndicator,
   Alert,
   Dimensions,
+  useWindowDimensions,
   Platform,
   Animated,
 } from 'react-native';
@@ -20,21 +21,62 @@ import type {
   PanGestureHandlerGestureEvent,
   PanGestureHandlerStateChangeEvent,
 } from 'react-native-gesture-handler';
-import { useRoute } from '@react-navigation/native';
+import { useRoute, useNavigation } from '@react-navigation/native';
 import { RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../../App';
-import { getPracticeTranscript, PracticeSentence, getAudioUrl, AudioInfo, getVideoDetails } from '../services/youtubeService';
+import { getPracticeTranscript, PracticeSentence, AudioInfo, getVideoDetails } from '../services/youtubeService';
 import * as Speech from 'expo-speech';
 import TTSService from '../services/ttsService';
 import { Audio } from 'expo-av';
 import VideoPlayer, { VideoPlayerRef } from '../components/VideoPlayer';
 import VoiceSelector from '../components/VoiceSelector';
+import LanguageSelector from '../components/LanguageSelector';
 import AudioPlayer, { AudioPlayerRef } from '../components/AudioPlayer';
-import { getTranscriptData, ProcessedSentence, testConnection } from '../services/whisperService';
+import ShadowingControls from '../components/ShadowingControls';
+import SentenceText from '../components/SentenceText';
+import PronunciationFeedback from '../components/PronunciationFeedback';
+import IntonationComparison from '../components/IntonationComparison';
+import DictationInput from '../components/DictationInput';
+import WordLookupSheet from '../components/WordLookupSheet';
+import LoopControls, { LoopRange, LoopProgress, formatRepeatCount } from '../components/LoopControls';
+import SentenceEditor from '../components/SentenceEditor';
+import TranslationLine from '../components/TranslationLine';
+import ExportSheet from '../components/ExportSheet';
+import WebAlert from '../components/WebAlert';
+import { ProcessedSentence, testConnection, getWordTimings, getActiveWordIndex } from '../services/whisperService';
+import { getMediaAudio, getMediaTranscript, MediaSource } from '../services/mediaSourceService';
 import { addToHistory, updateAudioStatus } from '../services/historyService';
+import { saveDifficulty } from '../services/difficultyService';
+import { getCourse, getCourseProgress, setVideoCompleted, summarizeCourse } from '../services/courseService';
+import RecordingService, { RecordingTake, RecordingTakes, MAX_TAKES_PER_SENTENCE } from '../services/recordingService';
+import { recordSentencePractice, accuracyToQuality } from '../services/reviewService';
+import {
+  SentenceEdit,
+  applyTranscriptEdits,
+  getTranscriptEdits,
+  addTranscriptEdit,
+  undoTranscriptEdit,
+  clearTranscriptEdits,
+  getSentenceKey,
+  getOriginalStart,
+} from '../services/transcriptEditService';
+import { getOfflinePack, OfflinePack } from '../services/offlinePackService';
+import {
+  getTargetLanguage,
+  setTargetLanguage,
+  getCachedTranslations,
+  translateTranscript,
+  getLanguageName,
+  DEFAULT_TARGET_LANGUAGE,
+  SentenceTranslations,
+} from '../services/translationService';
+import { assessRecording } from '../services/pronunciationService';
+import { gradeDictation, getDictationResults, recordDictationAttempt, isWeakSentence, DictationResults, DictationStats } from '../services/dictationService';
 import { API_CONFIG } from '../config/api';
 
 type ScriptPracticeScreenRouteProp = RouteProp<RootStackParamList, 'ScriptPractice'>;
+type ScriptPracticeScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ScriptPractice'>;
 
 const { width } = Dimensions.get('window');
 
@@ -45,6 +87,26 @@ const formatTime = (seconds: number): string => {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
+// Convert ProcessedSentence to PracticeSentence format
+const toPracticeSentences = (sentences: ProcessedSentence[]): PracticeSentence[] =>
+  sentences.map(sentence => ({
+    text: sentence.text,
+    start: sentence.start,
+    end: sentence.end,
+    duration: sentence.duration,
+    // Add any missing fields for compatibility
+    correctedWords: sentence.text,
+    originalWords: sentence.text,
+    words: sentence.words,
+    originalStart: sentence.originalStart,
+  }));
+
+// Bilingual view shows translations beside the sentences from this window width
+const WIDE_SCREEN_WIDTH = 768;
+
+// Original audio speeds - pitch is preserved so the speaker still sounds natural
+const PLAYBACK_RATES = [1, 1.25, 1.5, 0.5, 0.75];
+
 interface SentenceItemProps {
   sentence: PracticeSentence;
   index: number;
@@ -112,7 +174,10 @@ const SentenceItem: React.FC<SentenceItemProps> = React.memo(({
 
 export default function ScriptPracticeScreen() {
   const route = useRoute<ScriptPracticeScreenRouteProp>();
-  const { videoId, videoTitle } = route.params;
+  const navigation = useNavigation<ScriptPracticeScreenNavigationProp>();
+  const { videoId, videoTitle, courseId } = route.params; // courseId: opened from a course, offer its next video
+  const mediaSource: MediaSource = route.params.mediaSource || { type: 'youtube', videoId };
+  const isOwnMedia = mediaSource.type !== 'youtube'; // The learner's own file or text - no YouTube embed or server history
 
   const [sentences, setSentences] = useState<PracticeSentence[]>([]);
   const [currentSentenceIndex, setCurrentSentenceIndex] = useState(0);
@@ -122,13 +187,23 @@ export default function ScriptPracticeScreen() {
   const [audioInfo, setAudioInfo] = useState<AudioInfo | null>(null);
   const [audioLoading, setAudioLoading] = useState(true);
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
-  const [playbackMode, setPlaybackMode] = useState<'tts' | 'original' | 'video' | null>(null);
+  const [playbackMode, setPlaybackMode] = useState<'tts' | 'original' | 'dictation' | 'video' | null>(null);
   const [selectedVoice, setSelectedVoice] = useState('nova');
   const [showVoiceSelector, setShowVoiceSelector] = useState(false);
+  const [lookup, setLookup] = useState<{ word: string; sentence: PracticeSentence } | null>(null); // Tapped word
   const [isTTSPlaying, setIsTTSPlaying] = useState(false);
   const [isGlobalPlaying, setIsGlobalPlaying] = useState(false); // Global playback state
   const [showVideo, setShowVideo] = useState(true); // Video display toggle
-  const [translations, setTranslations] = useState<{[key: number]: string}>({}); // Translation cache
+  const [translations, setTranslations] = useState<SentenceTranslations>({}); // Saved translations by sentence text
+  const [translationLanguage, setTranslationLanguage] = useState(DEFAULT_TARGET_LANGUAGE);
+  const [showLanguageSelector, setShowLanguageSelector] = useState(false);
+  const [showExportSheet, setShowExportSheet] = useState(false);
+  const [isBilingual, setIsBilingual] = useState(false); // Every sentence with its translation
+  const [isTranslationMasked, setIsTranslationMasked] = useState(false); // Self-test: blur translations until tapped
+  const [isTranslatingTranscript, setIsTranslatingTranscript] = useState(false);
+  const translationRunRef = useRef(0); // Ignores results from a run that was superseded
+  const { width: windowWidth } = useWindowDimensions();
+  const isWideScreen = windowWidth >= WIDE_SCREEN_WIDTH;
   const [showingTranslation, setShowingTranslation] = useState<{[key: number]: boolean}>({}); // Translation display state
   const [translating, setTranslating] = useState<{[key: number]: boolean}>({}); // Translation in progress state
   const swipeAnimations = useRef<{[key: number]: Animated.Value}>({}).current; // Swipe animations
@@ -139,9 +214,27 @@ export default function ScriptPracticeScreen() {
   const videoHeightAnim = useRef(new Animated.Value(1)).current; // Video height animation
   const [transcriptError, setTranscriptError] = useState<string | null>(null);
   const [currentSentence, setCurrentSentence] = useState<PracticeSentence | null>(null);
+  const [activeWordIndex, setActiveWordIndex] = useState(-1); // Karaoke highlight within currentSentence
   // State for tracking sentence positions
   const [sentenceLayouts, setSentenceLayouts] = useState<{[key: number]: number}>({});
   const [showModeAlert, setShowModeAlert] = useState(false);
+  const [recordingTakes, setRecordingTakes] = useState<RecordingTakes>({}); // Learner recordings per sentence
+  const [scoring, setScoring] = useState<{[takeId: string]: boolean}>({}); // Pronunciation scoring in progress
+  const [scoringErrors, setScoringErrors] = useState<{[takeId: string]: string}>({}); // Pronunciation scoring failures
+  const [dictationResults, setDictationResults] = useState<DictationResults>({}); // Dictation attempts per sentence
+  const [isLoopEnabled, setIsLoopEnabled] = useState(false);
+  const [loopRepeatCount, setLoopRepeatCount] = useState(5); // 0 = loop until stopped
+  const [loopGapSeconds, setLoopGapSeconds] = useState(2);
+  const [loopRange, setLoopRange] = useState<LoopRange | null>(null); // A-B points, null = sentence boundaries
+  const [loopProgress, setLoopProgress] = useState<LoopProgress | null>(null);
+  const loopTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [isEditMode, setIsEditMode] = useState(false);
+  const [serverSentences, setServerSentences] = useState<ProcessedSentence[]>([]); // Transcript before learner edits
+  const [transcriptEdits, setTranscriptEdits] = useState<SentenceEdit[]>([]);
+  const [isOfflinePack, setIsOfflinePack] = useState(false); // Practicing from a downloaded pack
+  const playbackRateRef = useRef(1); // Read by sentence timers, which may run from stale closures
+  const completionRecordedRef = useRef(false);
 
   const handleSentenceLayout = (index: number, layout: any) => {
     setSentenceLayouts(prev => ({
@@ -151,13 +244,12 @@ export default function ScriptPracticeScreen() {
   };
 
   useEffect(() => {
-    // Test connection first
-    testNetworkConnection();
-    
     // Configure audio session for better playback
     configureAudioSession();
-    loadTranscript();
-    loadAudio();
+    loadPracticeData();
+    loadRecordings();
+    loadDictationResults();
+    loadTranslationLanguage();
     
     // Add to history when video is accessed
     addVideoToHistory();
@@ -168,9 +260,66 @@ export default function ScriptPracticeScreen() {
         clearTimeout(sentenceTimerRef.current);
         sentenceTimerRef.current = null;
       }
+      if (loopTimerRef.current) {
+        clearTimeout(loopTimerRef.current);
+        loopTimerRef.current = null;
+      }
+      RecordingService.cancelRecording();
+      RecordingService.stopPlayback();
     };
   }, []);
 
+  // A-B points belong to one sentence
+  useEffect(() => {
+    setLoopRange(null);
+  }, [currentSentenceIndex]);
+
+  // Saved translations for the chosen language
+  useEffect(() => {
+    loadTranslations(translationLanguage);
+  }, [translationLanguage]);
+
+  // Bilingual view translates the whole transcript (again after edits or a language change)
+  useEffect(() => {
+    if (isBilingual && sentences.length > 0) {
+      translateAllSentences();
+    }
+  }, [isBilingual, translationLanguage, sentences]);
+
+  // Apply the speed to a newly loaded audio player as well
+  useEffect(() => {
+    audioPlayerRef.current?.setRate(playbackRate);
+  }, [audioInfo]);
+
+  const offerNextCourseVideo = async () => {
+    if (!courseId) return;
+
+    const course = await getCourse(courseId);
+    if (!course) return;
+
+    const { nextVideo } = summarizeCourse(course, await getCourseProgress());
+    if (!nextVideo) {
+      WebAlert.alert('Course Complete', `🎉 You finished every video in "${course.title}"!`);
+      return;
+    }
+
+    WebAlert.alert(
+      'Video Complete',
+      `Next in "${course.title}":\n${nextVideo.title}`,
+      [
+        { text: 'Stay Here', style: 'cancel' },
+        {
+          text: 'Next Video',
+          onPress: () => navigation.replace('ScriptPractice', {
+            videoId: nextVideo.videoId,
+            videoTitle: nextVideo.title,
+            courseId,
+          }),
+        },
+      ]
+    );
+  };
+
   const testNetworkConnection = async () => {
     try {
       console.log('🔬 Testing network connection...');
@@ -202,7 +351,53 @@ export default function ScriptPracticeScreen() {
     }
   };
 
+  // Load from a downloaded offline pack first, otherwise from the server
+  const loadPracticeData = async () => {
+    let pack: OfflinePack | null = null;
+    try {
+      pack = await getOfflinePack(videoId);
+    } catch (error) {
+      console.error('⚠️ Failed to read offline pack:', error);
+    }
+
+    if (pack) {
+      console.log('📦 Using offline pack downloaded at', pack.downloadedAt);
+      setIsOfflinePack(true);
+      setAudioInfo(pack.audio);
+      setAudioLoading(false);
+      await showTranscript(pack.transcript.sentences);
+      setLoading(false);
+      return;
+    }
+
+    // Test connection first
+    testNetworkConnection();
+    loadTranscript();
+    loadAudio();
+  };
+
+  // Reapply the learner's sentence boundary edits on top of the server transcript
+  const showTranscript = async (processedSentences: ProcessedSentence[]) => {
+    let edits: SentenceEdit[] = [];
+    try {
+      edits = await getTranscriptEdits(videoId);
+    } catch (error) {
+      console.error('⚠️ Failed to load transcript edits:', error);
+    }
+
+    setServerSentences(processedSentences);
+    setTranscriptEdits(edits);
+    setSentences(toPracticeSentences(applyTranscriptEdits(processedSentences, edits)));
+
+    // Level badges in search and history come from the last loaded transcript
+    saveDifficulty(videoId, processedSentences).catch(error => {
+      console.warn('⚠️ Failed to save difficulty:', error);
+    });
+  };
+
   const addVideoToHistory = async () => {
+    if (isOwnMedia) return;
+
     try {
       // Get video details for history entry
       const videoDetails = await getVideoDetails(videoId);
@@ -226,32 +421,26 @@ export default function ScriptPracticeScreen() {
   const loadTranscript = async () => {
     try {
       console.log('🔍 Loading transcript with Whisper/YouTube integration...');
-      const result = await getTranscriptData(videoId);
+      const result = await getMediaTranscript(mediaSource, (updated) => {
+        // The server copy changed since it was cached - swap in the fresh sentences
+        showTranscript(updated.sentences);
+      });
       
       if (result.success && result.sentences.length > 0) {
         console.log(`✅ Transcript loaded from ${result.source}:`, result.sentences.length, 'sentences');
         
-        // Convert ProcessedSentence to PracticeSentence format
-        const practiceSentences: PracticeSentence[] = result.sentences.map((sentence: ProcessedSentence, index: number) => ({
-          text: sentence.text,
-          start: sentence.start,
-          end: sentence.end,
-          duration: sentence.duration,
-          // Add any missing fields for compatibility
-          correctedWords: sentence.text,
-          originalWords: sentence.text,
-        }));
-        
-        setSentences(practiceSentences);
+        await showTranscript(result.sentences);
         
         // Update history with transcript source
-        await addToHistory({
-          videoId,
-          title: videoTitle,
-          thumbnail: '', // Will be filled by getVideoDetails
-          channelTitle: '',
-          transcriptSource: result.source
-        });
+        if (!isOwnMedia) {
+          await addToHistory({
+            videoId,
+            title: videoTitle,
+            thumbnail: '', // Will be filled by getVideoDetails
+            channelTitle: '',
+            transcriptSource: result.source
+          });
+        }
         
       } else {
         throw new Error('No transcript data available');
@@ -306,7 +495,7 @@ export default function ScriptPracticeScreen() {
       console.log('🌐 API Base URL:', API_CONFIG.BASE_URL);
       console.log('📱 Platform:', Platform.OS);
       
-      const audio = await getAudioUrl(videoId);
+      const audio = await getMediaAudio(mediaSource);
       setAudioInfo(audio);
       console.log('✅ Audio info loaded successfully:', {
         title: audio.title,
@@ -319,7 +508,9 @@ export default function ScriptPracticeScreen() {
       });
       
       // Update history with audio status
-      await updateAudioStatus(videoId, true, audio.source);
+      if (!isOwnMedia) {
+        await updateAudioStatus(videoId, true, audio.source);
+      }
     } catch (error) {
       console.error('❌ Failed to load audio:', error);
       console.error('Error details:', {
@@ -336,7 +527,10 @@ export default function ScriptPracticeScreen() {
       const isTimeout = errorMessage.includes('timeout');
       const isNetworkError = errorMessage.includes('Network Error') || errorMessage.includes('CORS');
       
-      if (Platform.OS === 'web') {
+      if (isOwnMedia) {
+        // No video to fall back to for the learner's own file or text
+        WebAlert.alert(mediaSource.type === 'text' ? 'Voice Error' : 'File Error', errorMessage);
+      } else if (Platform.OS === 'web') {
         // For web, don't show alert - just log and continue with video fallback
         console.log('🌐 Web platform: Using video player fallback due to audio loading error');
         console.log('🔍 Error type:', isTimeout ? 'Timeout' : isNetworkError ? 'Network/CORS' : 'Other');
@@ -357,6 +551,159 @@ export default function ScriptPracticeScreen() {
     }
   };
 
+  const loadRecordings = async () => {
+    try {
+      const takes = await RecordingService.getTakes(videoId);
+      setRecordingTakes(takes);
+      console.log('🎙️ Recordings loaded for', Object.keys(takes).length, 'sentences');
+    } catch (error) {
+      console.error('⚠️ Failed to load recordings:', error);
+    }
+  };
+
+  const loadDictationResults = async () => {
+    try {
+      setDictationResults(await getDictationResults(videoId));
+    } catch (error) {
+      console.error('⚠️ Failed to load dictation results:', error);
+    }
+  };
+
+  const handleDictationSubmit = async (index: number, answer: string) => {
+    const grade = gradeDictation(sentences[index].text, answer);
+    try {
+      const stats = await recordDictationAttempt(videoId, getOriginalStart(sentences[index]), answer, grade);
+      setDictationResults(prev => ({ ...prev, [getSentenceKey(getOriginalStart(sentences[index]))]: stats }));
+    } catch (error) {
+      console.error('⚠️ Failed to save dictation attempt:', error);
+    }
+    addToReviewQueue(sentences[index], grade.accuracy);
+    markSentencePracticed(sentences[index]);
+    return grade;
+  };
+
+  // Practicing the last sentence (hearing it to the end, recording or dictating it) completes
+  // the video in every course that has it - selecting it alone doesn't
+  const markSentencePracticed = (sentence: PracticeSentence) => {
+    if (completionRecordedRef.current || isOwnMedia || sentences.length === 0) return;
+    if (sentence.start !== sentences[sentences.length - 1].start) return;
+
+    completionRecordedRef.current = true;
+    setVideoCompleted(videoId, true)
+      .then(offerNextCourseVideo)
+      .catch(error => console.warn('⚠️ Failed to record course progress:', error));
+  };
+
+  // Feed practiced sentences into the spaced-repetition review queue
+  const addToReviewQueue = (sentence: PracticeSentence, accuracy?: number) => {
+    recordSentencePractice(
+      {
+        videoId,
+        videoTitle,
+        text: sentence.text,
+        start: sentence.start,
+        end: sentence.end,
+        originalStart: sentence.originalStart,
+      },
+      accuracy !== undefined ? accuracyToQuality(accuracy) : undefined
+    ).catch(error => console.error('⚠️ Failed to update review queue:', error));
+  };
+
+  // Play a sentence for dictation - original audio when available, otherwise TTS
+  const playDictationSentence = (sentence: PracticeSentence) => {
+    if (audioInfo) {
+      playSentenceOnly(sentence);
+    } else {
+      TTSService.stop();
+      speakSentence(sentence.text);
+    }
+  };
+
+  // Takes and dictation stats are keyed by sentence start, so they follow sentences through edits
+  const getSentenceTakes = (sentence: PracticeSentence): RecordingTake[] =>
+    recordingTakes[getSentenceKey(getOriginalStart(sentence))] || [];
+
+  const getSentenceStats = (sentence: PracticeSentence): DictationStats | undefined =>
+    dictationResults[getSentenceKey(getOriginalStart(sentence))];
+
+  const getNextWeakSentenceIndex = (): number => {
+    for (let offset = 1; offset <= sentences.length; offset++) {
+      const index = (currentSentenceIndex + offset) % sentences.length;
+      if (index !== currentSentenceIndex && isWeakSentence(getSentenceStats(sentences[index]))) {
+        return index;
+      }
+    }
+    return -1;
+  };
+
+  const goToNextWeakSentence = () => {
+    const index = getNextWeakSentenceIndex();
+    if (index < 0) return;
+
+    setCurrentSentenceIndex(index);
+    scrollToCurrentSentence(index);
+    playDictationSentence(sentences[index]);
+  };
+
+  const stopAllPlayback = () => {
+    stopLoop();
+    if (audioPlayerRef.current) {
+      audioPlayerRef.current.pause();
+    }
+    if (sentenceTimerRef.current) {
+      clearTimeout(sentenceTimerRef.current);
+      sentenceTimerRef.current = null;
+    }
+    TTSService.stop();
+    setIsPlaying(false);
+    setIsTTSPlaying(false);
+    setIsAutoPlay(false);
+    setIsGlobalPlaying(false);
+  };
+
+  const replaceTake = (take: RecordingTake) => {
+    const key = getSentenceKey(take.sentenceStart);
+    setRecordingTakes(prev => ({
+      ...prev,
+      [key]: (prev[key] || []).map(t => (t.id === take.id ? take : t)),
+    }));
+  };
+
+  const handleTakeRecorded = (take: RecordingTake) => {
+    const key = getSentenceKey(take.sentenceStart);
+    setRecordingTakes(prev => ({
+      ...prev,
+      [key]: [take, ...(prev[key] || [])].slice(0, MAX_TAKES_PER_SENTENCE),
+    }));
+    const sentence = sentences.find(s => getSentenceKey(getOriginalStart(s)) === key);
+    if (sentence) {
+      markSentencePracticed(sentence);
+    }
+    scoreTake(take);
+  };
+
+  const scoreTake = async (take: RecordingTake) => {
+    const key = getSentenceKey(take.sentenceStart);
+    const sentence = sentences.find(s => getSentenceKey(getOriginalStart(s)) === key);
+    if (!sentence) return;
+
+    setScoring(prev => ({ ...prev, [take.id]: true }));
+    setScoringErrors(prev => ({ ...prev, [take.id]: '' }));
+
+    try {
+      const assessment = await assessRecording(await RecordingService.getTakeUri(take), sentence.text);
+      const scoredTake = { ...take, assessment };
+      await RecordingService.updateTake(scoredTake);
+      replaceTake(scoredTake);
+      addToReviewQueue(sentence, assessment.accuracy);
+    } catch (error) {
+      console.error('❌ Pronunciation scoring failed:', error);
+      setScoringErrors(prev => ({ ...prev, [take.id]: 'Could not score this recording' }));
+    } finally {
+      setScoring(prev => ({ ...prev, [take.id]: false }));
+    }
+  };
+
   const speakSentence = async (text: string) => {
     try {
       console.log('🗣️ TTS speaking:', text.substring(0, 50) + '...');
@@ -370,6 +717,10 @@ export default function ScriptPracticeScreen() {
       TTSService.speakWithExpoSpeech(text).then(() => {
         setIsTTSPlaying(false);
         setIsGlobalPlaying(false);
+        const sentence = sentences.find(s => s.text === text);
+        if (sentence) {
+          markSentencePracticed(sentence);
+        }
       }).catch(() => {
         setIsTTSPlaying(false);
         setIsGlobalPlaying(false);
@@ -418,6 +769,13 @@ export default function ScriptPracticeScreen() {
         setIsTTSPlaying(false);
       }
       
+      // Stop sentence loop
+      if (loopProgress && audioPlayerRef.current) {
+        stopLoop();
+        audioPlayerRef.current.pause();
+        setIsPlaying(false);
+      }
+      
       // Stop original audio
       if (isAudioPlaying && audioPlayerRef.current) {
         audioPlayerRef.current.pause();
@@ -451,7 +809,10 @@ export default function ScriptPracticeScreen() {
         speakSentence(currentSentence.text);
       } else if (playbackMode === 'original') {
         console.log('🎵 Starting Original playback');
-        playSentenceOnly(currentSentence);
+        playOriginalSentence(currentSentence);
+      } else if (playbackMode === 'dictation') {
+        console.log('✍️ Starting Dictation playback');
+        playDictationSentence(currentSentence);
       } else {
         // Set to Original mode if no mode is selected
         setPlaybackMode('original');
@@ -475,6 +836,7 @@ export default function ScriptPracticeScreen() {
         videoPlayerRef.current?.pause();
         setIsPlaying(false);
         setIsGlobalPlaying(false);
+        markSentencePracticed(sentence);
         
         // Auto-advance to next sentence if Auto Play is enabled
         if (isAutoPlay && currentSentenceIndex < sentences.length - 1) {
@@ -495,8 +857,10 @@ export default function ScriptPracticeScreen() {
   const playSentenceOnly = (sentence: PracticeSentence) => {
     if (!audioPlayerRef.current) return;
 
+    stopLoop();
     console.log('🎵 Playing sentence audio:', sentence);
     setCurrentSentence(sentence);
+    setActiveWordIndex(-1);
     setIsPlaying(true);
 
     // Seek to sentence start
@@ -511,6 +875,7 @@ export default function ScriptPracticeScreen() {
         console.log('🔇 AI detected silence, stopping audio');
         setIsPlaying(false);
         setCurrentSentence(null);
+        markSentencePracticed(sentence);
         
         // Auto-advance to next sentence if Auto Play is enabled
         if (isAutoPlay) {
@@ -526,14 +891,17 @@ export default function ScriptPracticeScreen() {
       // Fallback to timer-based approach for native or when VAD is not available
       audioPlayerRef.current.play();
       
-      // Auto-stop after sentence duration with some padding
+      // Auto-stop after sentence duration with some padding.
+      // The timer runs in real time, so scale the media duration by the playback rate.
       const paddingMs = 200; // 200ms padding to ensure complete playback
+      const playbackMs = (sentence.duration * 1000) / playbackRateRef.current;
       const stopTimer = setTimeout(() => {
         if (audioPlayerRef.current) {
           audioPlayerRef.current.pause();
-          console.log('⏰ Timer-based stop after', sentence.duration + paddingMs, 'ms');
+          console.log('⏰ Timer-based stop after', playbackMs + paddingMs, 'ms');
           setIsPlaying(false);
           setCurrentSentence(null);
+          markSentencePracticed(sentence);
           
           // Auto-advance to next sentence if Auto Play is enabled
           if (isAutoPlay) {
@@ -545,7 +913,7 @@ export default function ScriptPracticeScreen() {
             }
           }
         }
-      }, sentence.duration * 1000 + paddingMs);
+      }, playbackMs + paddingMs);
 
       // Store the timer reference for cleanup
       if (sentenceTimerRef.current) {
@@ -555,9 +923,166 @@ export default function ScriptPracticeScreen() {
     }
   };
 
+  const getLoopRange = (sentence: PracticeSentence): LoopRange =>
+    loopRange || { start: sentence.start, end: sentence.end };
+
+  const stopLoop = () => {
+    if (loopTimerRef.current) {
+      clearTimeout(loopTimerRef.current);
+      loopTimerRef.current = null;
+    }
+    setLoopProgress(null);
+  };
+
+  // Repeat the sentence (or its A-B range) with a gap between repetitions
+  const playSentenceLoop = (sentence: PracticeSentence) => {
+    if (!audioPlayerRef.current) return;
+
+    stopLoop();
+    if (sentenceTimerRef.current) {
+      clearTimeout(sentenceTimerRef.current);
+      sentenceTimerRef.current = null;
+    }
+
+    const { start, end } = getLoopRange(sentence);
+    const total = loopRepeatCount;
+    const gapMs = loopGapSeconds * 1000;
+    console.log(`🔁 Looping ${start.toFixed(2)}s - ${end.toFixed(2)}s ${formatRepeatCount(total)} with ${loopGapSeconds}s gap`);
+
+    setCurrentSentence(sentence);
+    setIsPlaying(true);
+
+    const playIteration = (iteration: number) => {
+      setActiveWordIndex(-1);
+      setLoopProgress({ current: iteration, total });
+      audioPlayerRef.current?.playRange(start, end, () => {
+        markSentencePracticed(sentence);
+        if (total > 0 && iteration >= total) {
+          setLoopProgress(null);
+          setIsPlaying(false);
+          setIsGlobalPlaying(false);
+          setCurrentSentence(null);
+          return;
+        }
+        loopTimerRef.current = setTimeout(() => playIteration(iteration + 1), gapMs);
+      });
+    };
+
+    playIteration(1);
+  };
+
+  const playOriginalSentence = (sentence: PracticeSentence) => {
+    if (isLoopEnabled) {
+      playSentenceLoop(sentence);
+    } else {
+      playSentenceOnly(sentence);
+    }
+  };
+
+  const showTranscriptEdits = (edits: SentenceEdit[]) => {
+    const editedSentences = toPracticeSentences(applyTranscriptEdits(serverSentences, edits));
+    setTranscriptEdits(edits);
+    setSentences(editedSentences);
+    setCurrentSentenceIndex(prev => Math.min(prev, editedSentences.length - 1));
+  };
+
+  const saveTranscriptEdit = async (edit: SentenceEdit) => {
+    try {
+      showTranscriptEdits(await addTranscriptEdit(videoId, edit));
+    } catch (error) {
+      console.error('❌ Failed to save transcript edit:', error);
+      WebAlert.alert('Error', 'Failed to save your edit');
+    }
+  };
+
+  const handleSplitSentence = (sentence: PracticeSentence, wordIndex: number) => {
+    saveTranscriptEdit({ type: 'split', sentenceStart: sentence.start, wordIndex });
+  };
+
+  const handleMergeSentence = (sentence: PracticeSentence) => {
+    saveTranscriptEdit({ type: 'merge', sentenceStart: sentence.start });
+  };
+
+  // Retime and play the edge that moved, so the learner hears where it now falls
+  const handleRetimeSentence = async (sentence: PracticeSentence, start: number, end: number, edge: 'start' | 'end') => {
+    await saveTranscriptEdit({ type: 'retime', sentenceStart: sentence.start, start, end });
+
+    if (audioPlayerRef.current) {
+      stopLoop();
+      const previewSeconds = 1.5;
+      if (edge === 'start') {
+        audioPlayerRef.current.playRange(start, Math.min(end, start + previewSeconds));
+      } else {
+        audioPlayerRef.current.playRange(Math.max(start, end - previewSeconds), end);
+      }
+    }
+  };
+
+  const handleUndoEdit = async () => {
+    try {
+      showTranscriptEdits(await undoTranscriptEdit(videoId));
+    } catch (error) {
+      console.error('❌ Failed to undo transcript edit:', error);
+    }
+  };
+
+  const handleResetEdits = () => {
+    WebAlert.alert(
+      'Reset Sentence Edits',
+      'Restore the original sentence boundaries for this video?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await clearTranscriptEdits(videoId);
+              showTranscriptEdits([]);
+            } catch (error) {
+              WebAlert.alert('Error', 'Failed to reset edits');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const cyclePlaybackRate = () => {
+    const nextRate = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(playbackRate) + 1) % PLAYBACK_RATES.length];
+    playbackRateRef.current = nextRate;
+    setPlaybackRate(nextRate);
+    audioPlayerRef.current?.setRate(nextRate);
+  };
+
+  const toggleLoop = () => {
+    if (isLoopEnabled && loopProgress) {
+      stopLoop();
+      audioPlayerRef.current?.pause();
+      setIsPlaying(false);
+    }
+    if (!isLoopEnabled) {
+      // Loops repeat the original audio
+      setPlaybackMode('original');
+    }
+    setIsLoopEnabled(!isLoopEnabled);
+  };
+
+  const isSentencePlaying = (sentence: PracticeSentence) =>
+    isPlaying && currentSentence !== null && currentSentence.start === sentence.start;
+
+  // Follow the original audio position to highlight the word being spoken
+  const handleAudioPositionChange = (timeInSeconds: number) => {
+    if (!currentSentence || !isPlaying) return;
+
+    const timings = getWordTimings(currentSentence);
+    setActiveWordIndex(getActiveWordIndex(timings, timeInSeconds));
+  };
+
   const handleSentencePress = async (index: number) => {
     // Stop if currently playing
     if (isPlaying || isTTSPlaying) {
+      stopLoop();
       if (audioPlayerRef.current) {
         audioPlayerRef.current.pause();
         setIsPlaying(false);
@@ -586,6 +1111,9 @@ export default function ScriptPracticeScreen() {
     }
     
     const sentence = sentences[index];
+    if (playbackMode !== 'dictation') {
+      addToReviewQueue(sentence);
+    }
     
     // Play according to selected mode
     if (playbackMode === 'tts') {
@@ -594,7 +1122,10 @@ export default function ScriptPracticeScreen() {
       await speakSentence(sentence.text);
     } else if (playbackMode === 'original') {
       console.log('🎵 Playing with Original mode');
-      playSentenceOnly(sentence);
+      playOriginalSentence(sentence);
+    } else if (playbackMode === 'dictation') {
+      console.log('✍️ Playing with Dictation mode');
+      playDictationSentence(sentence);
     }
   };
 
@@ -659,7 +1190,7 @@ export default function ScriptPracticeScreen() {
           }
           
           startAutoPlay();
-        }, (sentences[currentSentenceIndex]?.duration || 3) * 1000 + 1000);
+        }, ((sentences[currentSentenceIndex]?.duration || 3) * 1000) / (playbackMode === 'original' ? playbackRateRef.current : 1) + 1000);
       } else {
         // Auto Play 완료 시 글로벌 재생 상태 업데이트
         setIsGlobalPlaying(false);
@@ -691,9 +1222,66 @@ export default function ScriptPracticeScreen() {
     }
   };
 
+  const loadTranslationLanguage = async () => {
+    try {
+      setTranslationLanguage(await getTargetLanguage());
+    } catch (error) {
+      console.error('⚠️ Failed to load translation language:', error);
+    }
+  };
+
+  const loadTranslations = async (language: string) => {
+    try {
+      const saved = await getCachedTranslations(videoId, language);
+      // An offline pack keeps its own copy in case the saved translations were cleared
+      const pack = await getOfflinePack(videoId);
+      setTranslations(pack?.translationLanguage === language ? { ...pack.translations, ...saved } : saved);
+    } catch (error) {
+      console.error('⚠️ Failed to load translations:', error);
+      setTranslations({});
+    }
+  };
+
+  const handleSelectLanguage = async (language: string) => {
+    setTranslationLanguage(language);
+    setShowingTranslation({});
+    try {
+      await setTargetLanguage(language);
+    } catch (error) {
+      console.error('⚠️ Failed to save translation language:', error);
+    }
+  };
+
+  // Fill in translations progressively, starting from the current sentence
+  const translateAllSentences = async () => {
+    const run = ++translationRunRef.current;
+    const texts = [
+      ...sentences.slice(currentSentenceIndex),
+      ...sentences.slice(0, currentSentenceIndex),
+    ].map(sentence => sentence.text);
+
+    try {
+      setIsTranslatingTranscript(true);
+      const result = await translateTranscript(videoId, texts, translationLanguage, undefined, (partial) => {
+        if (run === translationRunRef.current) {
+          setTranslations(partial);
+        }
+      });
+      if (run === translationRunRef.current) {
+        setTranslations(result);
+      }
+    } catch (error) {
+      console.error('❌ Transcript translation error:', error);
+    } finally {
+      if (run === translationRunRef.current) {
+        setIsTranslatingTranscript(false);
+      }
+    }
+  };
+
   const translateSentence = async (text: string, index: number) => {
     // If already translated, just toggle state
-    if (translations[index]) {
+    if (translations[text]) {
       const newShowingState = { ...showingTranslation };
       newShowingState[index] = !newShowingState[index];
       setShowingTranslation(newShowingState);
@@ -715,43 +1303,27 @@ export default function ScriptPracticeScreen() {
       newTranslatingState[index] = true;
       setTranslating(newTranslatingState);
 
-      console.log('🌐 Starting translation for sentence:', index, text);
+      console.log('🌐 Translating transcript, starting from sentence:', index);
 
-      // Call translation API
-      const response = await fetch(`${API_CONFIG.BASE_URL}/translate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: text,
-          targetLanguage: 'ko'
-        }),
-      });
+      // Translate the whole transcript in one request - later swipes are instant
+      const result = await translateTranscript(
+        videoId,
+        sentences.map(sentence => sentence.text),
+        translationLanguage
+      );
+      setTranslations(result);
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      if (!result[text]) {
+        throw new Error('Translation failed');
       }
 
-      const data = await response.json();
-      console.log('✅ Translation response:', data);
-
-      if (data.success && data.translatedText) {
-        // Store translation result in cache
-        const newTranslations = { ...translations };
-        newTranslations[index] = data.translatedText;
-        setTranslations(newTranslations);
-
-        // Enable translation display state
-        const newShowingState = { ...showingTranslation };
-        newShowingState[index] = true;
-        setShowingTranslation(newShowingState);
+      // Enable translation display state
+      const newShowingState = { ...showingTranslation };
+      newShowingState[index] = true;
+      setShowingTranslation(newShowingState);
 
-        // Animate swipe effect
-        animateSwipe(index, true);
-      } else {
-        throw new Error(data.error || 'Translation failed');
-      }
+      // Animate swipe effect
+      animateSwipe(index, true);
     } catch (error) {
       console.error('❌ Translation error:', error);
       Alert.alert(
@@ -786,7 +1358,7 @@ export default function ScriptPracticeScreen() {
   };
 
   const handleSwipeLeft = (index: number) => {
-    // English → Korean translation
+    // English → target language translation
     const sentence = sentences[index];
     if (sentence && sentence.text) {
       translateSentence(sentence.text, index);
@@ -794,7 +1366,7 @@ export default function ScriptPracticeScreen() {
   };
 
   const handleSwipeRight = (index: number) => {
-    // Korean → English
+    // Target language → English
     const newShowingState = { ...showingTranslation };
     newShowingState[index] = false;
     setShowingTranslation(newShowingState);
@@ -921,7 +1493,13 @@ export default function ScriptPracticeScreen() {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color="#667eea" />
-        <Text style={styles.loadingText}>Loading transcript...</Text>
+        <Text style={styles.loadingText}>
+          {mediaSource.type === 'text'
+            ? 'Preparing your script...'
+            : mediaSource.type === 'local'
+              ? 'Transcribing your file with Whisper...'
+              : 'Loading transcript...'}
+        </Text>
       </View>
     );
   }
@@ -932,16 +1510,48 @@ export default function ScriptPracticeScreen() {
         <View style={styles.titleRow}>
         <Text style={styles.title}>{videoTitle}</Text>
           
-          {/* Video Toggle Control - Compact and elegant button */}
-          <TouchableOpacity
-            style={styles.videoToggleButton}
-            onPress={toggleVideo}
-            activeOpacity={0.7}
-          >
-            <Text style={styles.videoToggleIcon}>
-              {showVideo ? '📹' : '📱'}
-            </Text>
-          </TouchableOpacity>
+          <View style={styles.titleActions}>
+            {/* Export transcript */}
+            <TouchableOpacity
+              style={[styles.videoToggleButton, sentences.length === 0 && styles.disabledCompactButton]}
+              onPress={() => setShowExportSheet(true)}
+              disabled={sentences.length === 0}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.videoToggleIcon}>📤</Text>
+            </TouchableOpacity>
+
+            {/* Translation language */}
+            <TouchableOpacity
+              style={styles.videoToggleButton}
+              onPress={() => setShowLanguageSelector(true)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.videoToggleIcon}>🌐</Text>
+            </TouchableOpacity>
+
+            {/* Sentence boundary edit mode */}
+            <TouchableOpacity
+              style={[styles.videoToggleButton, isEditMode && styles.activeButton]}
+              onPress={() => setIsEditMode(!isEditMode)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.videoToggleIcon}>✏️</Text>
+            </TouchableOpacity>
+
+            {/* Video Toggle Control - Compact and elegant button */}
+            {!isOwnMedia && (
+              <TouchableOpacity
+                style={styles.videoToggleButton}
+                onPress={toggleVideo}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.videoToggleIcon}>
+                  {showVideo ? '📹' : '📱'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
         
         <View style={styles.controlsContainer}>
@@ -950,9 +1560,12 @@ export default function ScriptPracticeScreen() {
             Current Sentence {currentSentenceIndex + 1}
             {playbackMode && (
               <Text style={styles.modeIndicator}>
-                {' '}({playbackMode === 'tts' ? '🗣️ TTS Mode' : '🎵 Original Mode'})
+                {' '}({playbackMode === 'tts' ? '🗣️ TTS Mode' : playbackMode === 'dictation' ? '✍️ Dictation Mode' : '🎵 Original Mode'})
               </Text>
             )}
+            {isOfflinePack && (
+              <Text style={styles.modeIndicator}> 📦 Offline</Text>
+            )}
           </Text>
           
           {/* Arrange all control buttons in two rows */}
@@ -1015,24 +1628,129 @@ export default function ScriptPracticeScreen() {
                 🎵 Original
               </Text>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.compactButton,
+                styles.dictationButton,
+                playbackMode === 'dictation' && styles.activeButton
+              ]}
+              onPress={() => {
+                setPlaybackMode('dictation');
+                console.log('🎛️ Mode set to Dictation');
+              }}
+            >
+              <Text style={[
+                styles.compactButtonText,
+                playbackMode === 'dictation' && styles.activeButtonText
+              ]}>
+                ✍️ Dictation
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.compactButton,
+                styles.loopButton,
+                isLoopEnabled && styles.activeButton,
+                !audioInfo && styles.disabledCompactButton
+              ]}
+              onPress={toggleLoop}
+              disabled={!audioInfo}
+            >
+              <Text style={[
+                styles.compactButtonText,
+                isLoopEnabled && styles.activeButtonText
+              ]}>
+                {loopProgress
+                  ? `🔁 ${loopProgress.current}${loopProgress.total ? `/${loopProgress.total}` : ''}`
+                  : isLoopEnabled ? `🔁 ${formatRepeatCount(loopRepeatCount)}` : '🔁 Loop'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.speedRow}>
+            <Text style={styles.speedLabel}>Original speed</Text>
+            <TouchableOpacity
+              style={[
+                styles.speedButton,
+                playbackRate !== 1 && styles.activeButton,
+                !audioInfo && styles.disabledCompactButton
+              ]}
+              onPress={cyclePlaybackRate}
+              disabled={!audioInfo}
+            >
+              <Text style={[
+                styles.compactButtonText,
+                playbackRate !== 1 && styles.activeButtonText
+              ]}>
+                {playbackRate < 1 ? '🐢' : '🐇'} {playbackRate}x
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.speedRow}>
+            <Text style={styles.speedLabel}>Translation ({getLanguageName(translationLanguage)})</Text>
+            {isBilingual && (
+              <TouchableOpacity
+                style={[styles.speedButton, isTranslationMasked && styles.activeButton]}
+                onPress={() => setIsTranslationMasked(!isTranslationMasked)}
+              >
+                <Text style={[
+                  styles.compactButtonText,
+                  isTranslationMasked && styles.activeButtonText
+                ]}>
+                  {isTranslationMasked ? '🙈 Hidden' : '👀 Shown'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.speedButton, isBilingual && styles.activeButton]}
+              onPress={() => setIsBilingual(!isBilingual)}
+            >
+              <Text style={[
+                styles.compactButtonText,
+                isBilingual && styles.activeButtonText
+              ]}>
+                📖 Bilingual
+              </Text>
+            </TouchableOpacity>
           </View>
+
+          {isLoopEnabled && audioInfo && sentences[currentSentenceIndex] && (
+            <LoopControls
+              sentenceRange={{
+                start: sentences[currentSentenceIndex].start,
+                end: sentences[currentSentenceIndex].end,
+              }}
+              range={getLoopRange(sentences[currentSentenceIndex])}
+              repeatCount={loopRepeatCount}
+              gapSeconds={loopGapSeconds}
+              progress={loopProgress}
+              onRangeChange={setLoopRange}
+              onRepeatCountChange={setLoopRepeatCount}
+              onGapChange={setLoopGapSeconds}
+            />
+          )}
         </View>
       </View>
 
-      <Animated.View 
-        style={[
-          styles.videoContainer,
-          {
-            height: videoHeightAnim.interpolate({
-              inputRange: [0, 1],
-              outputRange: [0, 200], // 0에서 200px로 애니메이션
-            }),
-            opacity: videoHeightAnim,
-          }
-        ]}
-      >
-        <VideoPlayer videoId={videoId} ref={videoPlayerRef} />
-      </Animated.View>
+      {!isOwnMedia && (
+        <Animated.View 
+          style={[
+            styles.videoContainer,
+            {
+              height: videoHeightAnim.interpolate({
+                inputRange: [0, 1],
+                outputRange: [0, 200], // 0에서 200px로 애니메이션
+              }),
+              opacity: videoHeightAnim,
+            }
+          ]}
+        >
+          <VideoPlayer videoId={videoId} ref={videoPlayerRef} />
+        </Animated.View>
+      )}
 
       {audioLoading ? (
         <View style={styles.audioLoadingContainer}>
@@ -1040,7 +1758,21 @@ export default function ScriptPracticeScreen() {
           <Text style={styles.audioLoadingText}>Loading audio...</Text>
         </View>
       ) : audioInfo ? (
-        <AudioPlayer audioUrl={audioInfo.audioUrl} ref={audioPlayerRef} />
+        <AudioPlayer
+          audioUrl={audioInfo.audioUrl}
+          ref={audioPlayerRef}
+          onPositionChange={handleAudioPositionChange}
+        />
+      ) : mediaSource.type === 'text' ? (
+        <View style={styles.audioErrorContainer}>
+          <Text style={styles.audioErrorText}>🔊 Could not generate the voice for your script</Text>
+          <Text style={styles.audioErrorSubText}>Check your connection and open the script again</Text>
+        </View>
+      ) : isOwnMedia ? (
+        <View style={styles.audioErrorContainer}>
+          <Text style={styles.audioErrorText}>📁 Could not open your file</Text>
+          <Text style={styles.audioErrorSubText}>Go back and pick the file again from the home screen</Text>
+        </View>
       ) : (
         <View style={styles.audioErrorContainer}>
           <Text style={styles.audioErrorText}>📹 Using video player for audio</Text>
@@ -1079,12 +1811,94 @@ export default function ScriptPracticeScreen() {
               </Text>
             </View>
             
-            <Text style={[
-              styles.sentenceText,
-              index === currentSentenceIndex && styles.currentSentenceText
-            ]}>
-              {sentence.text}
-            </Text>
+            {playbackMode === 'dictation' && !isEditMode ? (
+              index === currentSentenceIndex ? (
+                <DictationInput
+                  key={`dictation-${index}`}
+                  sentenceText={sentence.text}
+                  stats={getSentenceStats(sentence)}
+                  canJumpToWeak={getNextWeakSentenceIndex() >= 0}
+                  onListen={() => playDictationSentence(sentence)}
+                  onSubmit={(answer) => handleDictationSubmit(index, answer)}
+                  onNextWeak={goToNextWeakSentence}
+                />
+              ) : (
+                <Text style={styles.hiddenSentenceText}>
+                  {'•••• '.repeat(Math.min(6, Math.ceil(sentence.text.split(' ').length / 3)))}
+                  {getSentenceStats(sentence) && (
+                    <Text style={isWeakSentence(getSentenceStats(sentence)) ? styles.weakBadge : styles.dictationBadge}>
+                      {'  '}{getSentenceStats(sentence)?.lastAccuracy}%
+                    </Text>
+                  )}
+                </Text>
+              )
+            ) : (
+              <View style={isBilingual && isWideScreen && styles.bilingualRow}>
+                <SentenceText
+                  text={sentence.text}
+                  wordTimings={isSentencePlaying(sentence) ? getWordTimings(sentence) : []}
+                  activeWordIndex={isSentencePlaying(sentence) ? activeWordIndex : -1}
+                  onWordPress={(word) => setLookup({ word, sentence })}
+                  style={[
+                    styles.sentenceText,
+                    index === currentSentenceIndex && styles.currentSentenceText,
+                    isBilingual && isWideScreen && styles.bilingualColumn
+                  ]}
+                />
+                {isBilingual && (
+                  <TranslationLine
+                    translation={translations[sentence.text]}
+                    isPending={isTranslatingTranscript}
+                    isMasked={isTranslationMasked}
+                    style={isWideScreen ? styles.bilingualColumn : styles.translationLine}
+                  />
+                )}
+              </View>
+            )}
+
+            {index === currentSentenceIndex && isEditMode && (
+              <SentenceEditor
+                sentence={sentence}
+                canMerge={index < sentences.length - 1}
+                canUndo={transcriptEdits.length > 0}
+                onSplit={(wordIndex) => handleSplitSentence(sentence, wordIndex)}
+                onMerge={() => handleMergeSentence(sentence)}
+                onRetime={(start, end, edge) => handleRetimeSentence(sentence, start, end, edge)}
+                onListen={() => playSentenceOnly(sentence)}
+                onUndo={handleUndoEdit}
+                onReset={handleResetEdits}
+              />
+            )}
+
+            {index === currentSentenceIndex && playbackMode !== 'dictation' && !isEditMode && (
+              <ShadowingControls
+                videoId={videoId}
+                sentenceStart={getOriginalStart(sentence)}
+                takes={getSentenceTakes(sentence)}
+                canPlayOriginal={!!audioInfo}
+                onRecordingStart={stopAllPlayback}
+                onTakeRecorded={handleTakeRecorded}
+                onPlayOriginal={() => playSentenceOnly(sentence)}
+              />
+            )}
+
+            {playbackMode !== 'dictation' && !isEditMode && getSentenceTakes(sentence)[0] && (
+              <PronunciationFeedback
+                result={getSentenceTakes(sentence)[0].assessment}
+                isScoring={!!scoring[getSentenceTakes(sentence)[0].id]}
+                error={scoringErrors[getSentenceTakes(sentence)[0].id]}
+                onRetry={() => scoreTake(getSentenceTakes(sentence)[0])}
+              />
+            )}
+
+            {index === currentSentenceIndex && playbackMode !== 'dictation' && !isEditMode && audioInfo && (
+              <IntonationComparison
+                audioUrl={audioInfo.audioUrl}
+                start={sentence.start}
+                end={sentence.end}
+                take={getSentenceTakes(sentence)[0]}
+              />
+            )}
           </TouchableOpacity>
         ))}
       </ScrollView>
@@ -1103,6 +1917,18 @@ export default function ScriptPracticeScreen() {
         </View>
       </View>
 
+      <WordLookupSheet
+        word={lookup?.word || null}
+        source={lookup ? {
+          sentence: lookup.sentence.text,
+          videoId,
+          videoTitle,
+          start: lookup.sentence.start,
+          end: lookup.sentence.end,
+        } : null}
+        onClose={() => setLookup(null)}
+      />
+
       <VoiceSelector
         visible={showVoiceSelector}
         onClose={() => setShowVoiceSelector(false)}
@@ -1110,6 +1936,21 @@ export default function ScriptPracticeScreen() {
         selectedVoice={selectedVoice}
       />
 
+      <LanguageSelector
+        visible={showLanguageSelector}
+        onClose={() => setShowLanguageSelector(false)}
+        onSelect={handleSelectLanguage}
+        selectedLanguage={translationLanguage}
+      />
+
+      <ExportSheet
+        visible={showExportSheet}
+        title={videoTitle}
+        sentences={sentences}
+        translations={translations}
+        onClose={() => setShowExportSheet(false)}
+      />
+
       {/* Mode Selection Alert */}
       {showModeAlert && (
         <View style={styles.alertContainer}>
@@ -1162,6 +2003,10 @@ const styles = StyleSheet.create({
     alignItems: 'flex-start',
     marginBottom: 12,
   },
+  titleActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   title: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -1247,6 +2092,44 @@ const styles = StyleSheet.create({
   originalButton: {
     backgroundColor: '#e8f5e9',
   },
+  dictationButton: {
+    backgroundColor: '#fff3e0',
+  },
+  loopButton: {
+    backgroundColor: '#ede7f6',
+  },
+  disabledCompactButton: {
+    opacity: 0.5,
+  },
+  speedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  speedLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  speedButton: {
+    backgroundColor: '#f0f0f0',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  bilingualRow: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  bilingualColumn: {
+    flex: 1,
+  },
+  translationLine: {
+    marginTop: 6,
+  },
   activeButton: {
     backgroundColor: '#667eea',
   },
@@ -1321,6 +2204,24 @@ const styles = StyleSheet.create({
   currentSentenceText: {
     color: '#fff',
   },
+  hiddenSentenceText: {
+    fontSize: 16,
+    lineHeight: 24,
+    color: '#ccc',
+    letterSpacing: 2,
+  },
+  dictationBadge: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    letterSpacing: 0,
+    color: '#10b981',
+  },
+  weakBadge: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    letterSpacing: 0,
+    color: '#ef4444',
+  },
   progressContainer: {
     backgroundColor: '#fff',
     padding: 16,
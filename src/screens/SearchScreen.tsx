@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
   View,
   Text,
@@ -9,52 +9,250 @@ import {
   Image,
   ActivityIndicator,
   Alert,
+  ScrollView,
+  Keyboard,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../../App';
-import { searchVideos } from '../services/youtubeService';
+import {
+  searchVideos,
+  extractPlaylistId,
+  Video,
+  SearchFilters,
+  DEFAULT_SEARCH_FILTERS,
+} from '../services/youtubeService';
+import { importYouTubePlaylist, prefetchCourse, Course } from '../services/courseService';
+import { YOUTUBE_CONFIG } from '../config/api';
+import {
+  getRecentSearches,
+  saveRecentSearch,
+  getCachedSearchResults,
+  removeRecentSearch,
+  clearRecentSearches,
+  RecentSearch,
+  TOPIC_SUGGESTIONS,
+} from '../services/searchHistoryService';
+import { getVideoDifficulties, DifficultyProfile } from '../services/difficultyService';
+import SearchFilterBar from '../components/SearchFilterBar';
+import DifficultyBadge from '../components/DifficultyBadge';
+import WebAlert from '../components/WebAlert';
+import { Ionicons } from '@expo/vector-icons';
 
 type SearchScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Search'>;
 
-interface Video {
-  id: string;
-  title: string;
-  description: string;
-  thumbnail: string;
-  channelTitle: string;
-  publishedAt: string;
-  duration?: string;
-  durationSeconds?: number;
-  viewCount?: number;
-}
+const countActiveFilters = (filters: SearchFilters): number =>
+  (Object.keys(filters) as (keyof SearchFilters)[]).filter(key => filters[key] !== DEFAULT_SEARCH_FILTERS[key]).length;
+
+const formatSearchedAt = (dateString: string) => {
+  const diffMinutes = Math.floor((Date.now() - new Date(dateString).getTime()) / (1000 * 60));
+
+  if (diffMinutes < 1) return 'Just now';
+  if (diffMinutes < 60) return `${diffMinutes} min ago`;
+  if (diffMinutes < 60 * 24) return `${Math.floor(diffMinutes / 60)} h ago`;
+  if (diffMinutes < 60 * 24 * 7) return `${Math.floor(diffMinutes / (60 * 24))} days ago`;
+  return new Date(dateString).toLocaleDateString();
+};
 
 export default function SearchScreen() {
   const navigation = useNavigation<SearchScreenNavigationProp>();
   const [query, setQuery] = useState('');
   const [videos, setVideos] = useState<Video[]>([]);
   const [loading, setLoading] = useState(false);
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [nextPageToken, setNextPageToken] = useState<string | undefined>();
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<RecentSearch[]>([]);
+  const [isInputFocused, setIsInputFocused] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [prefetchStatus, setPrefetchStatus] = useState<string | null>(null);
+  const searchIdRef = useRef(0); // Drops pages that arrive after a newer search started
+  const submittedSearchRef = useRef<{ query: string; filters: SearchFilters } | null>(null); // What the shown results are for
+  const inputRef = useRef<TextInput>(null);
 
-  const handleSearch = async () => {
-    if (!query.trim()) {
+  const [difficulties, setDifficulties] = useState<{ [videoId: string]: DifficultyProfile }>({});
+
+  useEffect(() => {
+    getRecentSearches().then(setRecentSearches);
+  }, []);
+
+  // Levels are only known for videos whose transcript was loaded before
+  useEffect(() => {
+    getVideoDifficulties(videos.map(video => video.id)).then(setDifficulties);
+  }, [videos]);
+
+  // keepResults: cached results are already showing, so refresh them without the full-screen loader
+  const handleSearch = async (
+    searchQuery: string = query,
+    searchFilters: SearchFilters = filters,
+    keepResults: boolean = false
+  ) => {
+    if (!searchQuery.trim()) {
       Alert.alert('Error', 'Please enter a search term');
       return;
     }
+    if (extractPlaylistId(searchQuery)) {
+      handleImportPlaylist(searchQuery);
+      return;
+    }
 
-    setLoading(true);
+    const searchId = ++searchIdRef.current;
+    submittedSearchRef.current = { query: searchQuery, filters: searchFilters };
+    inputRef.current?.blur();
+    Keyboard.dismiss();
+    if (keepResults) {
+      setRefreshing(true);
+    } else {
+      setLoading(true);
+    }
     try {
-      console.log(`🔍 Searching for: "${query}" (filtering for ≤10min videos with captions)`);
-      const results = await searchVideos(query);
-      console.log(`✅ Found ${results.length} videos matching criteria`);
-      setVideos(results);
+      console.log(`🔍 Searching for: "${searchQuery}" (filtering for ≤10min videos with captions)`, searchFilters);
+      const page = await searchVideos(searchQuery, searchFilters);
+      if (searchId !== searchIdRef.current) return;
+      console.log(`✅ Found ${page.videos.length} videos matching criteria`);
+      setVideos(page.videos);
+      setNextPageToken(page.nextPageToken);
+
+      try {
+        await saveRecentSearch(searchQuery, searchFilters, page);
+        setRecentSearches(await getRecentSearches());
+      } catch (error) {
+        console.warn('⚠️ Failed to save recent search:', error);
+      }
     } catch (error) {
       console.error('❌ Search failed:', error);
-      Alert.alert('Error', 'Failed to search videos. Please try again.');
+      if (!keepResults) {
+        Alert.alert('Error', 'Failed to search videos. Please try again.');
+      }
+    } finally {
+      if (searchId === searchIdRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  };
+
+  // Keeps running after leaving the screen; the status bar only shows while it's open
+  const startPrefetch = async (course: Course) => {
+    setPrefetchStatus('Preparing videos for offline practice...');
+    const downloaded = await prefetchCourse(course, (done, total) => {
+      setPrefetchStatus(`Downloading for offline practice: ${done}/${total}`);
+    });
+    setPrefetchStatus(null);
+    console.log(`📦 Prefetched ${downloaded} videos from "${course.title}"`);
+  };
+
+  const handleImportPlaylist = async (url: string) => {
+    inputRef.current?.blur();
+    Keyboard.dismiss();
+    setImporting(true);
+    try {
+      const course = await importYouTubePlaylist(url);
+      setQuery('');
+      const tooLongCount = course.videos.filter(video => video.tooLong).length;
+      const practiceCount = course.videos.length - tooLongCount;
+
+      WebAlert.alert(
+        'Playlist Imported',
+        `"${course.title}" is saved with ${practiceCount} videos to practice.` +
+          (tooLongCount > 0
+            ? ` ${tooLongCount} longer than ${YOUTUBE_CONFIG.MAX_DURATION_MINUTES} minutes are listed but skipped.`
+            : ''),
+        [
+          { text: 'Done', style: 'cancel' },
+          {
+            text: 'Download for Offline',
+            onPress: () => {
+              startPrefetch(course);
+            },
+          },
+          {
+            text: 'Open',
+            onPress: () => navigation.navigate('Course', { courseId: course.id }),
+          },
+        ]
+      );
+    } catch (error) {
+      console.error('❌ Playlist import failed:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error && error.message === 'This playlist has no videos'
+          ? 'This playlist has no videos.'
+          : 'Failed to import the playlist. Make sure it is public and try again.'
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Show the results from last time right away, then refresh them
+  const handleRecentSearchPress = async (search: RecentSearch) => {
+    setQuery(search.query);
+    setFilters(search.filters);
+
+    const cached = await getCachedSearchResults(search.id);
+    if (cached) {
+      setVideos(cached.videos);
+      setNextPageToken(cached.nextPageToken);
+    }
+    handleSearch(search.query, search.filters, !!cached);
+  };
+
+  const handleTopicPress = (topicQuery: string) => {
+    setQuery(topicQuery);
+    handleSearch(topicQuery, filters);
+  };
+
+  const handleRemoveRecentSearch = async (id: string) => {
+    try {
+      await removeRecentSearch(id);
+      setRecentSearches(prev => prev.filter(s => s.id !== id));
+    } catch (error) {
+      console.error('Failed to remove recent search:', error);
+    }
+  };
+
+  const handleClearRecentSearches = async () => {
+    try {
+      await clearRecentSearches();
+      setRecentSearches([]);
+    } catch (error) {
+      console.error('Failed to clear recent searches:', error);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    const submitted = submittedSearchRef.current;
+    if (!submitted || !nextPageToken || loading || loadingMore) return;
+
+    const searchId = searchIdRef.current;
+    setLoadingMore(true);
+    try {
+      // Page through the submitted search - the input may have been edited since
+      const page = await searchVideos(submitted.query, submitted.filters, nextPageToken);
+      if (searchId !== searchIdRef.current) return;
+      // Pages can overlap when results shift between requests
+      setVideos(prev => [...prev, ...page.videos.filter(video => !prev.some(v => v.id === video.id))]);
+      setNextPageToken(page.nextPageToken);
+    } catch (error) {
+      console.error('❌ Failed to load more videos:', error);
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const handleFiltersChange = (newFilters: SearchFilters) => {
+    setFilters(newFilters);
+    if (query.trim()) {
+      handleSearch(query, newFilters);
     }
   };
 
+  const activeFilterCount = countActiveFilters(filters);
+  const showSuggestions = !loading && (isInputFocused || videos.length === 0);
+
   const handleVideoPress = (video: Video) => {
     navigation.navigate('VideoDetail', {
       videoId: video.id,
@@ -74,17 +272,27 @@ export default function SearchScreen() {
         </Text>
         <Text style={styles.channelTitle}>{item.channelTitle}</Text>
         <View style={styles.metaInfo}>
+          {difficulties[item.id] && (
+            <View style={styles.badgeSpacing}>
+              <DifficultyBadge level={difficulties[item.id].level} />
+            </View>
+          )}
           <Text style={styles.publishedAt}>
             {new Date(item.publishedAt).toLocaleDateString()}
           </Text>
           {item.duration && (
             <Text style={styles.duration}>• {item.duration}</Text>
           )}
-          {item.viewCount && (
+          {!!item.viewCount && (
             <Text style={styles.viewCount}>
               • {item.viewCount.toLocaleString()} views
             </Text>
           )}
+          {item.captionType && (
+            <Text style={styles.captionType}>
+              • {item.captionType === 'manual' ? 'CC' : 'Auto CC'}
+            </Text>
+          )}
         </View>
       </View>
     </TouchableOpacity>
@@ -94,20 +302,33 @@ export default function SearchScreen() {
     <View style={styles.container}>
       <View style={styles.searchContainer}>
         <TextInput
+          ref={inputRef}
           style={styles.searchInput}
-          placeholder="Search for videos..."
+          placeholder="Search or paste a playlist link..."
           placeholderTextColor="#666"
           value={query}
           onChangeText={setQuery}
-          onSubmitEditing={handleSearch}
+          onSubmitEditing={() => handleSearch()}
+          onFocus={() => setIsInputFocused(true)}
+          // Web blurs on mousedown - let a tap on a suggestion land before the list hides
+          onBlur={() => setTimeout(() => setIsInputFocused(false), 200)}
           returnKeyType="search"
         />
+        <TouchableOpacity
+          style={[styles.filterButton, (showFilters || activeFilterCount > 0) && styles.activeFilterButton]}
+          onPress={() => setShowFilters(!showFilters)}
+        >
+          <Ionicons name="options-outline" size={20} color={showFilters || activeFilterCount > 0 ? '#fff' : '#667eea'} />
+          {activeFilterCount > 0 && (
+            <Text style={styles.filterCount}>{activeFilterCount}</Text>
+          )}
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.searchButton}
-          onPress={handleSearch}
-          disabled={loading}
+          onPress={() => handleSearch()}
+          disabled={loading || importing}
         >
-          {loading ? (
+          {loading || importing ? (
             <ActivityIndicator color="#fff" size="small" />
           ) : (
             <Text style={styles.searchButtonText}>Search</Text>
@@ -115,7 +336,83 @@ export default function SearchScreen() {
         </TouchableOpacity>
       </View>
 
-      {loading ? (
+      {showFilters && (
+        <SearchFilterBar filters={filters} onChange={handleFiltersChange} />
+      )}
+
+      {importing && (
+        <View style={styles.refreshingBar}>
+          <ActivityIndicator size="small" color="#667eea" />
+          <Text style={styles.refreshingText}>Importing playlist...</Text>
+        </View>
+      )}
+
+      {prefetchStatus && (
+        <View style={styles.refreshingBar}>
+          <Ionicons name="cloud-download-outline" size={16} color="#667eea" />
+          <Text style={styles.refreshingText}>{prefetchStatus}</Text>
+        </View>
+      )}
+
+      {refreshing && (
+        <View style={styles.refreshingBar}>
+          <ActivityIndicator size="small" color="#667eea" />
+          <Text style={styles.refreshingText}>Refreshing results...</Text>
+        </View>
+      )}
+
+      {showSuggestions ? (
+        <ScrollView
+          contentContainerStyle={styles.suggestions}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {recentSearches.length > 0 && (
+            <View style={styles.suggestionSection}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Recent Searches</Text>
+                <TouchableOpacity onPress={handleClearRecentSearches}>
+                  <Text style={styles.clearText}>Clear</Text>
+                </TouchableOpacity>
+              </View>
+              {recentSearches.map(search => (
+                <TouchableOpacity
+                  key={search.id}
+                  style={styles.recentItem}
+                  onPress={() => handleRecentSearchPress(search)}
+                >
+                  <Ionicons name="time-outline" size={18} color="#999" />
+                  <View style={styles.recentInfo}>
+                    <Text style={styles.recentQuery} numberOfLines={1}>{search.query}</Text>
+                    <Text style={styles.recentMeta}>
+                      {formatSearchedAt(search.searchedAt)}
+                      {countActiveFilters(search.filters) > 0 && ` • ${countActiveFilters(search.filters)} filters`}
+                    </Text>
+                  </View>
+                  <TouchableOpacity style={styles.removeButton} onPress={() => handleRemoveRecentSearch(search.id)}>
+                    <Ionicons name="close" size={18} color="#999" />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.suggestionSection}>
+            <Text style={styles.sectionTitle}>Explore Topics</Text>
+            <View style={styles.topicGrid}>
+              {TOPIC_SUGGESTIONS.map(topic => (
+                <TouchableOpacity
+                  key={topic.label}
+                  style={styles.topicChip}
+                  onPress={() => handleTopicPress(topic.query)}
+                >
+                  <Text style={styles.topicText}>{topic.icon} {topic.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </ScrollView>
+      ) : loading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#667eea" />
           <Text style={styles.loadingText}>Searching videos...</Text>
@@ -128,6 +425,11 @@ export default function SearchScreen() {
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.videoList}
           showsVerticalScrollIndicator={false}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator style={styles.loadMoreIndicator} color="#667eea" /> : null
+          }
         />
       )}
     </View>
@@ -157,6 +459,25 @@ const styles = StyleSheet.create({
     fontSize: 16,
     backgroundColor: '#fff',
   },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+    borderWidth: 1,
+    borderColor: '#667eea',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    marginRight: 12,
+  },
+  activeFilterButton: {
+    backgroundColor: '#667eea',
+  },
+  filterCount: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   searchButton: {
     backgroundColor: '#667eea',
     paddingHorizontal: 20,
@@ -246,4 +567,95 @@ const styles = StyleSheet.create({
     color: '#999',
     marginLeft: 4,
   },
+  captionType: {
+    fontSize: 12,
+    color: '#10b981',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  badgeSpacing: {
+    marginRight: 6,
+  },
+  loadMoreIndicator: {
+    paddingVertical: 16,
+  },
+  refreshingBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    backgroundColor: '#eef0fb',
+  },
+  refreshingText: {
+    fontSize: 13,
+    color: '#667eea',
+  },
+  suggestions: {
+    padding: 16,
+  },
+  suggestionSection: {
+    marginBottom: 24,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  clearText: {
+    fontSize: 14,
+    color: '#667eea',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  recentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingLeft: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+    gap: 10,
+  },
+  recentInfo: {
+    flex: 1,
+  },
+  recentQuery: {
+    fontSize: 15,
+    color: '#333',
+  },
+  recentMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  removeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  topicGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  topicChip: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#667eea',
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  topicText: {
+    fontSize: 14,
+    color: '#667eea',
+    fontWeight: '600',
+  },
 }); 
\ No newline at end of file
@@ -0,0 +1,332 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../App';
+import {
+  getTextScripts,
+  createTextScript,
+  deleteTextScript,
+  prepareTextPractice,
+  splitIntoSentences,
+  TextScript,
+  TTSVoice,
+  MAX_SCRIPT_SENTENCES,
+} from '../services/textPracticeService';
+import VoiceSelector from '../components/VoiceSelector';
+import { Ionicons } from '@expo/vector-icons';
+import WebAlert from '../components/WebAlert';
+
+type TextPracticeScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'TextPractice'>;
+
+export default function TextPracticeScreen() {
+  const navigation = useNavigation<TextPracticeScreenNavigationProp>();
+  const [title, setTitle] = useState('');
+  const [text, setText] = useState('');
+  const [voice, setVoice] = useState<TTSVoice>('nova');
+  const [showVoiceSelector, setShowVoiceSelector] = useState(false);
+  const [scripts, setScripts] = useState<TextScript[]>([]);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const loadScripts = async () => {
+    try {
+      setScripts(await getTextScripts());
+    } catch (error) {
+      console.error('Failed to load text scripts:', error);
+    }
+  };
+
+  // Reload scripts when screen comes into focus
+  useFocusEffect(
+    useCallback(() => {
+      loadScripts();
+    }, [])
+  );
+
+  const sentenceCount = useMemo(() => splitIntoSentences(text).length, [text]);
+  const isTooLong = sentenceCount > MAX_SCRIPT_SENTENCES;
+
+  // Voice every sentence up front so practice starts with the whole track ready
+  const openScript = async (script: TextScript) => {
+    try {
+      setProgress('Preparing your script...');
+      await prepareTextPractice(script.id, setProgress);
+      navigation.navigate('ScriptPractice', {
+        videoId: script.id,
+        videoTitle: script.title,
+        mediaSource: { type: 'text', id: script.id, title: script.title },
+      });
+    } catch (error) {
+      console.error('❌ Failed to prepare text practice:', error);
+      WebAlert.alert('Voice Error', error instanceof Error ? error.message : 'Failed to generate the voice');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      const script = await createTextScript(title, text, voice);
+      setTitle('');
+      setText('');
+      setScripts(prev => [script, ...prev]);
+      await openScript(script);
+    } catch (error) {
+      WebAlert.alert('Cannot Create Script', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleDelete = (script: TextScript) => {
+    WebAlert.alert(
+      'Delete Script',
+      `Delete "${script.title}" and its generated audio?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTextScript(script.id);
+              setScripts(prev => prev.filter(s => s.id !== script.id));
+            } catch (error) {
+              WebAlert.alert('Error', 'Failed to delete script');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (progress) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#667eea" />
+        <Text style={styles.loadingText}>{progress}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Paste Your Text</Text>
+        <Text style={styles.cardText}>
+          A presentation, interview answers or anything you want to say well. Each sentence is voiced so you can shadow it.
+        </Text>
+
+        <TextInput
+          style={styles.titleInput}
+          placeholder="Title (optional)"
+          placeholderTextColor="#999"
+          value={title}
+          onChangeText={setTitle}
+        />
+        <TextInput
+          style={styles.textInput}
+          placeholder="Paste or type your text here..."
+          placeholderTextColor="#999"
+          value={text}
+          onChangeText={setText}
+          multiline
+          textAlignVertical="top"
+        />
+
+        <View style={styles.optionsRow}>
+          <Text style={[styles.countText, isTooLong && styles.countTextError]}>
+            {sentenceCount} / {MAX_SCRIPT_SENTENCES} sentences
+          </Text>
+          <TouchableOpacity style={styles.voiceButton} onPress={() => setShowVoiceSelector(true)}>
+            <Ionicons name="mic-outline" size={16} color="#667eea" />
+            <Text style={styles.voiceButtonText}>{voice.charAt(0).toUpperCase() + voice.slice(1)}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.generateButton, (sentenceCount === 0 || isTooLong) && styles.disabledButton]}
+          onPress={handleGenerate}
+          disabled={sentenceCount === 0 || isTooLong}
+        >
+          <Text style={styles.generateButtonText}>Generate & Practice</Text>
+        </TouchableOpacity>
+      </View>
+
+      {scripts.length > 0 && (
+        <View style={styles.savedSection}>
+          <Text style={styles.sectionTitle}>My Scripts</Text>
+          {scripts.map(script => (
+            <TouchableOpacity key={script.id} style={styles.scriptItem} onPress={() => openScript(script)}>
+              <View style={styles.scriptInfo}>
+                <Text style={styles.scriptTitle} numberOfLines={1}>{script.title}</Text>
+                <Text style={styles.scriptMeta}>
+                  {script.sentences.length} sentences · {script.voice} · {new Date(script.createdAt).toLocaleDateString()}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(script)}>
+                <Ionicons name="trash-outline" size={20} color="#ef4444" />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <VoiceSelector
+        visible={showVoiceSelector}
+        onClose={() => setShowVoiceSelector(false)}
+        onSelect={(voiceId) => setVoice(voiceId as TTSVoice)}
+        selectedVoice={voice}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 4,
+    lineHeight: 20,
+  },
+  titleInput: {
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    marginTop: 12,
+  },
+  textInput: {
+    minHeight: 180,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    lineHeight: 22,
+    marginTop: 12,
+  },
+  optionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  countText: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  countTextError: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  voiceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  voiceButtonText: {
+    fontSize: 13,
+    color: '#667eea',
+    fontWeight: '600',
+  },
+  generateButton: {
+    backgroundColor: '#667eea',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  generateButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  savedSection: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  scriptItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  scriptInfo: {
+    flex: 1,
+  },
+  scriptTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  scriptMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  iconButton: {
+    padding: 8,
+  },
+});
@@ -16,6 +16,11 @@ import { RootStackParamList } from '../../App';
 import { getVideoDetails, VideoDetails } from '../services/youtubeService';
 import { WebView } from 'react-native-webview';
 import VideoPlayer, { VideoPlayerRef } from '../components/VideoPlayer';
+import OfflinePackButton from '../components/OfflinePackButton';
+import SubtitleImportButton from '../components/SubtitleImportButton';
+import DifficultyBadge from '../components/DifficultyBadge';
+import AddToCourseSheet from '../components/AddToCourseSheet';
+import { estimateVideoDifficulty, DifficultyProfile } from '../services/difficultyService';
 
 type VideoDetailScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'VideoDetail'>;
 type VideoDetailScreenRouteProp = RouteProp<RootStackParamList, 'VideoDetail'>;
@@ -30,11 +35,15 @@ export default function VideoDetailScreen() {
 
   const [videoDetails, setVideoDetails] = useState<VideoDetails | null>(null);
   const [loading, setLoading] = useState(true);
+  const [difficulty, setDifficulty] = useState<DifficultyProfile | null>(null);
+  const [difficultyLoading, setDifficultyLoading] = useState(true);
+  const [showCourseSheet, setShowCourseSheet] = useState(false);
   const videoPlayerRef = useRef<VideoPlayerRef>(null);
 
   useEffect(() => {
     if (videoId) {
       loadVideoDetails();
+      loadDifficulty();
     } else {
       console.error('❌ No videoId provided to VideoDetailScreen');
       setLoading(false);
@@ -52,6 +61,16 @@ export default function VideoDetailScreen() {
     }
   };
 
+  const loadDifficulty = async () => {
+    try {
+      setDifficulty(await estimateVideoDifficulty(videoId));
+    } catch (error) {
+      console.warn('⚠️ Could not estimate difficulty:', error);
+    } finally {
+      setDifficultyLoading(false);
+    }
+  };
+
   const handlePracticeScript = () => {
     navigation.navigate('ScriptPractice', {
       videoId,
@@ -138,6 +157,26 @@ export default function VideoDetailScreen() {
           <Text style={styles.statValue}>{formatNumber(videoDetails.likeCount)}</Text>
         </View>
       </View>
+      <View style={styles.difficultyContainer}>
+        <View style={styles.difficultyHeader}>
+          <Text style={styles.statLabel}>Estimated Level</Text>
+          {difficultyLoading ? (
+            <ActivityIndicator size="small" color="#667eea" />
+          ) : difficulty ? (
+            <DifficultyBadge level={difficulty.level} showLabel />
+          ) : (
+            <Text style={styles.difficultyUnavailable}>Not available</Text>
+          )}
+        </View>
+        {difficulty && (
+          <View style={styles.difficultyMetrics}>
+            <Text style={styles.difficultyMetric}>🗣️ {difficulty.wordsPerMinute} words/min</Text>
+            <Text style={styles.difficultyMetric}>📚 {Math.round(difficulty.rareWordRatio * 100)}% uncommon words</Text>
+            <Text style={styles.difficultyMetric}>📏 {difficulty.averageSentenceLength} words/sentence</Text>
+            <Text style={styles.difficultyMetric}>💬 {difficulty.idiomsPer100Words} idioms/100 words</Text>
+          </View>
+        )}
+      </View>
       <View style={styles.info}>
         <Text style={styles.title}>{videoDetails.title}</Text>
         <Text style={styles.channel}>{videoDetails.channelTitle}</Text>
@@ -154,7 +193,26 @@ export default function VideoDetailScreen() {
         >
           <Text style={styles.practiceButtonText}>Practice Script</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.playlistButton}
+          onPress={() => setShowCourseSheet(true)}
+        >
+          <Text style={styles.playlistButtonText}>📚 Add to Playlist</Text>
+        </TouchableOpacity>
+        <OfflinePackButton videoId={videoId} title={videoDetails.title} />
+        <SubtitleImportButton videoId={videoId} />
       </View>
+      <AddToCourseSheet
+        visible={showCourseSheet}
+        video={{
+          videoId,
+          title: videoDetails.title,
+          thumbnail: videoDetails.thumbnail,
+          channelTitle: videoDetails.channelTitle,
+          duration: formatDuration(videoDetails.duration),
+        }}
+        onClose={() => setShowCourseSheet(false)}
+      />
     </ScrollView>
   );
 }
@@ -205,6 +263,43 @@ const styles = StyleSheet.create({
   statItem: {
     alignItems: 'center',
   },
+  difficultyContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginHorizontal: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  difficultyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  difficultyUnavailable: {
+    fontSize: 13,
+    color: '#999',
+  },
+  difficultyMetrics: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+    gap: 8,
+  },
+  difficultyMetric: {
+    fontSize: 13,
+    color: '#333',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
   statLabel: {
     fontSize: 12,
     color: '#666',
@@ -258,6 +353,19 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  playlistButton: {
+    borderWidth: 2,
+    borderColor: '#667eea',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  playlistButtonText: {
+    color: '#667eea',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
   videoPlayerContainer: {
     width: '100%',
     aspectRatio: 16 / 9,
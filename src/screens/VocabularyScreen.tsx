@@ -0,0 +1,364 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../App';
+import { getVocabulary, deleteWord, VocabularyWord } from '../services/vocabularyService';
+import TTSService from '../services/ttsService';
+import SentenceClipPlayer from '../components/SentenceClipPlayer';
+import { Ionicons } from '@expo/vector-icons';
+import WebAlert from '../components/WebAlert';
+import { openPractice } from '../components/openPractice';
+
+type VocabularyScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Vocabulary'>;
+
+const ALL_VIDEOS = 'all';
+
+export default function VocabularyScreen() {
+  const navigation = useNavigation<VocabularyScreenNavigationProp>();
+  const [words, setWords] = useState<VocabularyWord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [videoFilter, setVideoFilter] = useState(ALL_VIDEOS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadVocabulary = async () => {
+    try {
+      setLoading(true);
+      setWords(await getVocabulary());
+    } catch (error) {
+      console.error('Failed to load vocabulary:', error);
+      WebAlert.alert('Error', 'Failed to load vocabulary');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload words when screen comes into focus
+  useFocusEffect(
+    useCallback(() => {
+      loadVocabulary();
+    }, [])
+  );
+
+  // One filter chip per video that has saved words
+  const videos = useMemo(() => {
+    const titles = new Map<string, string>();
+    words.forEach(w => titles.set(w.videoId, w.videoTitle));
+    return Array.from(titles, ([videoId, title]) => ({ videoId, title }));
+  }, [words]);
+
+  const filteredWords = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    return words.filter(w =>
+      (videoFilter === ALL_VIDEOS || w.videoId === videoFilter) &&
+      (!search || w.word.toLowerCase().includes(search) || w.definition.toLowerCase().includes(search))
+    );
+  }, [words, query, videoFilter]);
+
+  const handleDelete = (item: VocabularyWord) => {
+    WebAlert.alert(
+      'Delete Word',
+      `Remove "${item.word}" from your vocabulary?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteWord(item.id);
+              setWords(prev => prev.filter(w => w.id !== item.id));
+              if (videoFilter !== ALL_VIDEOS && !words.some(w => w.id !== item.id && w.videoId === videoFilter)) {
+                setVideoFilter(ALL_VIDEOS);
+              }
+            } catch (error) {
+              WebAlert.alert('Error', 'Failed to delete word');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderWordItem = ({ item }: { item: VocabularyWord }) => {
+    const isExpanded = expandedId === item.id;
+
+    return (
+      <TouchableOpacity
+        style={styles.wordItem}
+        onPress={() => setExpandedId(isExpanded ? null : item.id)}
+      >
+        <View style={styles.wordHeader}>
+          <View style={styles.wordInfo}>
+            <Text style={styles.wordText}>
+              {item.word}
+              {item.partOfSpeech && <Text style={styles.partOfSpeech}>  {item.partOfSpeech}</Text>}
+            </Text>
+            {item.phonetic && <Text style={styles.phonetic}>{item.phonetic}</Text>}
+          </View>
+          <TouchableOpacity style={styles.iconButton} onPress={() => TTSService.speakWithExpoSpeech(item.word)}>
+            <Ionicons name="volume-high" size={20} color="#667eea" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(item)}>
+            <Ionicons name="trash-outline" size={20} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+
+        {item.definition.length > 0 && (
+          <Text style={styles.definition}>{item.definition}</Text>
+        )}
+        <Text style={styles.sentence} numberOfLines={isExpanded ? undefined : 2}>
+          "{item.sentence}"
+        </Text>
+
+        {isExpanded && (
+          <View style={styles.clipContainer}>
+            <SentenceClipPlayer videoId={item.videoId} start={item.start} end={item.end} />
+            <TouchableOpacity
+              onPress={() => openPractice(navigation, item.videoId, item.videoTitle)}
+            >
+              <Text style={styles.videoLink} numberOfLines={1}>📺 {item.videoTitle}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#667eea" />
+        <Text style={styles.loadingText}>Loading your vocabulary...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Vocabulary</Text>
+        <Text style={styles.countText}>{words.length} words</Text>
+      </View>
+
+      {words.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="book-outline" size={64} color="#d1d5db" />
+          <Text style={styles.emptyTitle}>No Saved Words</Text>
+          <Text style={styles.emptyText}>
+            Tap any word in a practice script to look it up and save it here
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.filterContainer}>
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Filter words..."
+              placeholderTextColor="#999"
+              value={query}
+              onChangeText={setQuery}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              {[{ videoId: ALL_VIDEOS, title: 'All videos' }, ...videos].map(video => (
+                <TouchableOpacity
+                  key={video.videoId}
+                  style={[styles.chip, videoFilter === video.videoId && styles.activeChip]}
+                  onPress={() => setVideoFilter(video.videoId)}
+                >
+                  <Text
+                    style={[styles.chipText, videoFilter === video.videoId && styles.activeChipText]}
+                    numberOfLines={1}
+                  >
+                    {video.title}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+
+          <FlatList
+            data={filteredWords}
+            renderItem={renderWordItem}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.wordList}
+            showsVerticalScrollIndicator={false}
+            ListEmptyComponent={
+              <Text style={styles.noMatchText}>No words match your filter</Text>
+            }
+          />
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  countText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#667eea',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 8,
+    lineHeight: 24,
+  },
+  filterContainer: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  searchInput: {
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    marginTop: 12,
+  },
+  chipRow: {
+    gap: 8,
+    paddingTop: 10,
+  },
+  chip: {
+    maxWidth: 180,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  activeChip: {
+    backgroundColor: '#667eea',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  activeChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  wordList: {
+    padding: 16,
+  },
+  wordItem: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  wordHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  wordInfo: {
+    flex: 1,
+  },
+  wordText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  partOfSpeech: {
+    fontSize: 13,
+    fontWeight: 'normal',
+    fontStyle: 'italic',
+    color: '#667eea',
+  },
+  phonetic: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  definition: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 8,
+    lineHeight: 20,
+  },
+  sentence: {
+    fontSize: 13,
+    color: '#6b7280',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  clipContainer: {
+    marginTop: 12,
+    gap: 8,
+  },
+  videoLink: {
+    fontSize: 13,
+    color: '#667eea',
+    fontWeight: '600',
+  },
+  noMatchText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
@@ -0,0 +1,115 @@
+// Small WAV files generated in memory for tests, so no binary fixtures need to be checked in
+
+export type WavEncoding = 'pcm8' | 'pcm16' | 'float32';
+
+export interface WavOptions {
+  sampleRate: number;
+  encoding: WavEncoding;
+  extensible?: boolean; // Write a WAVE_FORMAT_EXTENSIBLE fmt chunk
+  extraChunk?: string; // Content of a LIST chunk written before the data chunk (odd lengths test padding)
+}
+
+const writeTag = (view: DataView, offset: number, tag: string) => {
+  for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+};
+
+// Encode one Float32Array per channel into a RIFF/WAVE file
+export const encodeWav = (channels: Float32Array[], options: WavOptions): ArrayBuffer => {
+  const bitsPerSample = options.encoding === 'pcm8' ? 8 : options.encoding === 'pcm16' ? 16 : 32;
+  const bytesPerSample = bitsPerSample / 8;
+  const formatTag = options.encoding === 'float32' ? 3 : 1;
+  const frameCount = channels[0].length;
+  const dataLength = frameCount * channels.length * bytesPerSample;
+  const fmtLength = options.extensible ? 40 : 16;
+  const extraLength = options.extraChunk !== undefined ? options.extraChunk.length : -1;
+  const extraChunkSize = extraLength >= 0 ? 8 + extraLength + (extraLength % 2) : 0;
+
+  const buffer = new ArrayBuffer(12 + 8 + fmtLength + extraChunkSize + 8 + dataLength);
+  const view = new DataView(buffer);
+
+  writeTag(view, 0, 'RIFF');
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeTag(view, 8, 'WAVE');
+
+  writeTag(view, 12, 'fmt ');
+  view.setUint32(16, fmtLength, true);
+  view.setUint16(20, options.extensible ? 0xfffe : formatTag, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, options.sampleRate, true);
+  view.setUint32(28, options.sampleRate * channels.length * bytesPerSample, true);
+  view.setUint16(32, channels.length * bytesPerSample, true);
+  view.setUint16(34, bitsPerSample, true);
+  if (options.extensible) {
+    view.setUint16(36, 22, true); // Extension size
+    view.setUint16(38, bitsPerSample, true); // Valid bits
+    view.setUint32(40, 0, true); // Channel mask
+    view.setUint16(44, formatTag, true); // First field of the sub-format GUID
+  }
+
+  let offset = 20 + fmtLength;
+  if (options.extraChunk !== undefined) {
+    writeTag(view, offset, 'LIST');
+    view.setUint32(offset + 4, extraLength, true);
+    for (let i = 0; i < extraLength; i++) view.setUint8(offset + 8 + i, options.extraChunk.charCodeAt(i));
+    offset += extraChunkSize;
+  }
+
+  writeTag(view, offset, 'data');
+  view.setUint32(offset + 4, dataLength, true);
+  offset += 8;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    channels.forEach(channel => {
+      const value = Math.max(-1, Math.min(1, channel[frame]));
+      if (options.encoding === 'pcm8') {
+        view.setUint8(offset, Math.round(value * 127) + 128);
+      } else if (options.encoding === 'pcm16') {
+        view.setInt16(offset, Math.round(value * 32767), true);
+      } else {
+        view.setFloat32(offset, value, true);
+      }
+      offset += bytesPerSample;
+    });
+  }
+
+  return buffer;
+};
+
+// Sine wave at a fixed frequency
+export const sine = (frequency: number, duration: number, sampleRate: number, amplitude: number = 0.5): Float32Array => {
+  const samples = new Float32Array(Math.round(duration * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+};
+
+// Linear chirp from startFrequency to endFrequency
+export const chirp = (
+  startFrequency: number,
+  endFrequency: number,
+  duration: number,
+  sampleRate: number,
+  amplitude: number = 0.5
+): Float32Array => {
+  const samples = new Float32Array(Math.round(duration * sampleRate));
+  const rate = (endFrequency - startFrequency) / duration;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    samples[i] = amplitude * Math.sin(2 * Math.PI * (startFrequency * t + (rate * t * t) / 2));
+  }
+  return samples;
+};
+
+export const silence = (duration: number, sampleRate: number): Float32Array =>
+  new Float32Array(Math.round(duration * sampleRate));
+
+export const concat = (...parts: Float32Array[]): Float32Array => {
+  const result = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
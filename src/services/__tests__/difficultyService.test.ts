@@ -0,0 +1,109 @@
+import { estimateDifficulty } from '../difficultyService';
+import type { ProcessedSentence } from '../whisperService';
+
+const COMMON = ['we', 'go', 'to', 'the', 'city', 'with', 'good', 'people', 'and', 'work', 'all', 'day'];
+const RARE = ['zygote', 'quantum', 'ephemeral', 'ubiquitous'];
+
+const words = (list: string[], count: number) =>
+  Array.from({ length: count }, (_, i) => list[i % list.length]).join(' ');
+
+// Back-to-back sentences of the same text, timed to a given speaking rate
+const transcript = (text: string, count: number, wordsPerMinute: number): ProcessedSentence[] => {
+  const duration = (text.split(' ').length / wordsPerMinute) * 60;
+  return Array.from({ length: count }, (_, i) => ({
+    text,
+    start: i * duration,
+    end: (i + 1) * duration,
+    duration,
+  }));
+};
+
+// Words per minute that add `points` to the score (110 wpm = 0 points, 190 wpm = 35)
+const wpmForPoints = (points: number) => 110 + (80 * points) / 35;
+
+describe('estimateDifficulty', () => {
+  it('needs at least 30 words', () => {
+    expect(estimateDifficulty(transcript(words(COMMON, 29), 1, 120))).toBeNull();
+    expect(estimateDifficulty(transcript(words(COMMON, 30), 1, 120))).not.toBeNull();
+    expect(estimateDifficulty([])).toBeNull();
+  });
+
+  it('reports the raw metrics', () => {
+    const profile = estimateDifficulty(transcript(words(COMMON, 10), 4, 150));
+
+    expect(profile).toMatchObject({
+      wordsPerMinute: 150,
+      rareWordRatio: 0,
+      averageSentenceLength: 10,
+      idiomsPer100Words: 0,
+      wordCount: 40,
+    });
+  });
+
+  // 22-word sentences put sentence length at its maximum (20 points); the speaking rate adds the rest
+  it.each([
+    [29, 'A2'],
+    [30, 'B1'],
+    [49, 'B1'],
+    [50, 'B2'],
+  ])('scores %i as %s', (score, level) => {
+    const profile = estimateDifficulty(transcript(words(COMMON, 22), 3, wpmForPoints(score - 20)));
+
+    expect(profile?.score).toBe(score);
+    expect(profile?.level).toBe(level);
+  });
+
+  // All-rare vocabulary (35 points) and long sentences (20 points), then the speaking rate
+  it.each([
+    [69, 'B2'],
+    [70, 'C1'],
+  ])('scores %i as %s', (score, level) => {
+    const profile = estimateDifficulty(transcript(words(RARE, 22), 3, wpmForPoints(score - 55)));
+
+    expect(profile?.score).toBe(score);
+    expect(profile?.level).toBe(level);
+  });
+
+  it('keeps the score between 0 and 100', () => {
+    const easy = estimateDifficulty(transcript(words(COMMON, 5), 8, 60));
+    const hard = estimateDifficulty(transcript(`${words(RARE, 20)} a piece of cake`, 3, 300));
+
+    expect(easy).toMatchObject({ score: 0, level: 'A2' });
+    expect(hard).toMatchObject({ score: 100, level: 'C1' });
+  });
+
+  it('ignores sentences with unusable timings when measuring the speaking rate', () => {
+    const sentences = transcript(words(COMMON, 10), 3, 120);
+    sentences.push({ text: words(COMMON, 10), start: 20, end: 20, duration: 0 });
+
+    expect(estimateDifficulty(sentences)?.wordsPerMinute).toBe(120);
+  });
+
+  it('does not count capitalized names mid-sentence as rare words', () => {
+    const withNames = estimateDifficulty(transcript('we go to Zanzibar with Quentin and people all day', 3, 120));
+    const lowercase = estimateDifficulty(transcript('we go to zanzibar with quentin and people all day', 3, 120));
+    const sentenceStart = estimateDifficulty(transcript('Zanzibar is where we go with good people all day', 3, 120));
+
+    expect(withNames?.rareWordRatio).toBe(0);
+    expect(lowercase?.rareWordRatio).toBe(0.2);
+    // The first word of a sentence is capitalized anyway, so it still counts
+    expect(sentenceStart?.rareWordRatio).toBe(0.1);
+  });
+
+  it('treats inflected forms, possessives and contractions of common words as common', () => {
+    const text = 'studies carried hoping stopped running happily quickly taller smallest boxes used people\'s don\'t we\'ll';
+    const profile = estimateDifficulty(transcript(text, 3, 120));
+
+    expect(profile?.rareWordRatio).toBe(0);
+  });
+
+  it('counts idioms as whole phrases', () => {
+    const text = 'at the end of the day it was a piece of cake, so we call it a day and go to the city';
+    const profile = estimateDifficulty(transcript(text, 2, 120));
+
+    // 3 idioms in 23 words, twice
+    expect(profile?.idiomsPer100Words).toBe(13.04);
+    // "cake" on its own is not an idiom
+    expect(estimateDifficulty(transcript(`${words(COMMON, 15)} cake`, 2, 120))?.idiomsPer100Words).toBe(0);
+  });
+});
@@ -0,0 +1,169 @@
+import {
+  parseWav,
+  detectPitch,
+  extractContour,
+  normalizeContour,
+  analyzeIntonation,
+  ContourPoint,
+} from '../intonationService';
+import { encodeWav, sine, chirp, silence, concat } from '../__fixtures__/wav';
+
+const SAMPLE_RATE = 16000;
+
+describe('parseWav', () => {
+  const tone = sine(220, 0.05, SAMPLE_RATE);
+
+  it('reads 16-bit PCM', () => {
+    const audio = parseWav(encodeWav([tone], { sampleRate: SAMPLE_RATE, encoding: 'pcm16' }));
+
+    expect(audio.sampleRate).toBe(SAMPLE_RATE);
+    expect(audio.samples).toHaveLength(tone.length);
+    tone.forEach((value, i) => expect(audio.samples[i]).toBeCloseTo(value, 4));
+  });
+
+  it('reads unsigned 8-bit PCM', () => {
+    const audio = parseWav(encodeWav([tone], { sampleRate: SAMPLE_RATE, encoding: 'pcm8' }));
+
+    expect(audio.samples).toHaveLength(tone.length);
+    tone.forEach((value, i) => expect(Math.abs(audio.samples[i] - value)).toBeLessThan(0.02));
+  });
+
+  it('reads 32-bit float', () => {
+    const audio = parseWav(encodeWav([tone], { sampleRate: SAMPLE_RATE, encoding: 'float32' }));
+
+    tone.forEach((value, i) => expect(audio.samples[i]).toBeCloseTo(value, 6));
+  });
+
+  it('mixes stereo down to mono', () => {
+    const left = new Float32Array([0.5, 0.5, -0.25, 1]);
+    const right = new Float32Array([0.5, -0.5, -0.75, 0]);
+    const audio = parseWav(encodeWav([left, right], { sampleRate: 44100, encoding: 'float32' }));
+
+    expect(audio.sampleRate).toBe(44100);
+    expect(Array.from(audio.samples)).toEqual([0.5, 0, -0.5, 0.5]);
+  });
+
+  it('reads WAVE_FORMAT_EXTENSIBLE files by their sub-format', () => {
+    const pcm = parseWav(encodeWav([tone], { sampleRate: SAMPLE_RATE, encoding: 'pcm16', extensible: true }));
+    const float = parseWav(encodeWav([tone], { sampleRate: SAMPLE_RATE, encoding: 'float32', extensible: true }));
+
+    tone.forEach((value, i) => {
+      expect(pcm.samples[i]).toBeCloseTo(value, 4);
+      expect(float.samples[i]).toBeCloseTo(value, 6);
+    });
+  });
+
+  it('skips unknown chunks, including odd-sized ones', () => {
+    const audio = parseWav(encodeWav([tone], { sampleRate: SAMPLE_RATE, encoding: 'pcm16', extraChunk: 'INFOabc' }));
+
+    expect(audio.samples).toHaveLength(tone.length);
+    expect(audio.samples[1]).toBeCloseTo(tone[1], 4);
+  });
+
+  it('rejects input that is not a WAV file', () => {
+    const text = new TextEncoder().encode('ID3 this is an mp3, honestly').buffer as ArrayBuffer;
+
+    expect(() => parseWav(text)).toThrow('Not a WAV file');
+    expect(() => parseWav(new ArrayBuffer(4))).toThrow('Not a WAV file');
+  });
+
+  it('rejects a WAV file without a data chunk', () => {
+    const wav = encodeWav([tone], { sampleRate: SAMPLE_RATE, encoding: 'pcm16' });
+    const headerOnly = wav.slice(0, 36); // RIFF header + fmt chunk
+    new DataView(headerOnly).setUint32(4, headerOnly.byteLength - 8, true);
+
+    expect(() => parseWav(headerOnly)).toThrow('missing fmt or data chunk');
+  });
+});
+
+describe('detectPitch', () => {
+  it.each([110, 200, 330])('finds the frequency of a %i Hz tone', frequency => {
+    const pitch = detectPitch(sine(frequency, 0.04, SAMPLE_RATE), SAMPLE_RATE);
+
+    expect(pitch).not.toBeNull();
+    expect(Math.abs((pitch as number) - frequency) / frequency).toBeLessThan(0.01);
+  });
+
+  it('returns null for silence', () => {
+    expect(detectPitch(silence(0.04, SAMPLE_RATE), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('extractContour', () => {
+  it('tracks a rising 150 to 250 Hz chirp', () => {
+    const audio = parseWav(encodeWav([chirp(150, 250, 1, SAMPLE_RATE)], { sampleRate: SAMPLE_RATE, encoding: 'pcm16' }));
+    const contour = extractContour(audio);
+    const voiced = contour.filter(point => point.pitch !== null);
+
+    expect(voiced.length).toBeGreaterThan(contour.length * 0.9);
+    voiced.forEach(point => {
+      const expected = 150 + 100 * point.time;
+      expect(Math.abs((point.pitch as number) - expected) / expected).toBeLessThan(0.03);
+    });
+    expect(voiced[0].pitch as number).toBeLessThan(160);
+    expect(voiced[voiced.length - 1].pitch as number).toBeGreaterThan(240);
+  });
+
+  it('downsamples 44.1 kHz stereo before analysis', () => {
+    const tone = sine(200, 0.5, 44100);
+    const audio = parseWav(encodeWav([tone, tone], { sampleRate: 44100, encoding: 'pcm16' }));
+    const voiced = extractContour(audio).filter(point => point.pitch !== null);
+
+    expect(voiced.length).toBeGreaterThan(0);
+    voiced.forEach(point => expect(point.pitch as number).toBeCloseTo(200, -1));
+  });
+
+  it('marks quiet frames as unvoiced', () => {
+    const audio = { sampleRate: SAMPLE_RATE, samples: concat(sine(200, 0.3, SAMPLE_RATE), silence(0.3, SAMPLE_RATE)) };
+    const contour = extractContour(audio);
+
+    expect(contour.filter(point => point.time > 0.35).every(point => point.pitch === null)).toBe(true);
+  });
+});
+
+describe('normalizeContour', () => {
+  const point = (time: number, pitch: number | null, energy: number): ContourPoint => ({ time, pitch, energy });
+
+  it('trims leading and trailing silence and rescales time to 0-1', () => {
+    const contour = normalizeContour([
+      point(0, null, 0),
+      point(0.1, null, 0.01),
+      point(0.2, 200, 0.5),
+      point(0.3, null, 0.02), // Quiet gap inside the speech is kept
+      point(0.4, 400, 1),
+      point(0.6, 100, 0.5),
+      point(0.7, null, 0.05),
+      point(0.8, null, 0),
+    ]);
+
+    expect(contour.map(p => p.position)).toEqual([0, 0.25, 0.5, 1].map(value => expect.closeTo(value, 10)));
+    expect(contour.map(p => p.energy)).toEqual([0.5, 0.02, 1, 0.5]);
+  });
+
+  it('expresses pitch in semitones around the median', () => {
+    const contour = normalizeContour([point(0, 200, 1), point(0.1, 400, 1), point(0.2, 100, 1), point(0.3, null, 1)]);
+
+    expect(contour.map(p => p.semitones)).toEqual([0, 12, -12, null]);
+  });
+
+  it('returns nothing for empty or silent input', () => {
+    expect(normalizeContour([])).toEqual([]);
+    expect(normalizeContour([point(0, null, 0), point(0.1, null, 0)])).toEqual([]);
+  });
+});
+
+describe('analyzeIntonation', () => {
+  it('covers only the spoken part of a padded clip', () => {
+    const samples = concat(silence(0.2, SAMPLE_RATE), sine(200, 0.5, SAMPLE_RATE), silence(0.3, SAMPLE_RATE));
+    const contour = analyzeIntonation(parseWav(encodeWav([samples], { sampleRate: SAMPLE_RATE, encoding: 'pcm16' })));
+
+    expect(contour[0].position).toBe(0);
+    expect(contour[contour.length - 1].position).toBe(1);
+    // 0.5 s of speech at a 20 ms hop, give or take the frames straddling the edges
+    expect(contour.length).toBeGreaterThanOrEqual(23);
+    expect(contour.length).toBeLessThanOrEqual(27);
+    contour
+      .filter(p => p.semitones !== null)
+      .forEach(p => expect(Math.abs(p.semitones as number)).toBeLessThan(0.2));
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  formatSrtTimestamp,
+  formatVttTimestamp,
+  toSrt,
+  toVtt,
+  toPlainText,
+  toAnkiCsv,
+  toAnkiTsv,
+  getExportFileName,
+  parseTimestamp,
+  parseSubtitles,
+} from '../transcriptFormatService';
+import type { PracticeSentence } from '../youtubeService';
+
+const sentence = (text: string, start: number, end: number): PracticeSentence => ({
+  text,
+  start,
+  end,
+  duration: end - start,
+});
+
+const sentences = [
+  sentence('Hello there.', 0.5, 2.25),
+  sentence('How are you today?', 2.25, 3723.4),
+];
+
+describe('timestamps', () => {
+  it('formats SRT and VTT timestamps', () => {
+    expect(formatSrtTimestamp(3723.4)).toBe('01:02:03,400');
+    expect(formatVttTimestamp(3723.4)).toBe('01:02:03.400');
+    expect(formatSrtTimestamp(0.0004)).toBe('00:00:00,000');
+    expect(formatSrtTimestamp(-1)).toBe('00:00:00,000');
+  });
+});
+
+describe('toSrt / toVtt', () => {
+  it('writes numbered SRT cues with the translation on the next line', () => {
+    expect(toSrt(sentences, { 'Hello there.': 'Bonjour.' })).toBe(
+      '1\n00:00:00,500 --> 00:00:02,250\nHello there.\nBonjour.\n\n' +
+      '2\n00:00:02,250 --> 01:02:03,400\nHow are you today?\n'
+    );
+  });
+
+  it('writes a WEBVTT header and unnumbered cues', () => {
+    expect(toVtt(sentences)).toBe(
+      'WEBVTT\n\n' +
+      '00:00:00.500 --> 00:00:02.250\nHello there.\n\n' +
+      '00:00:02.250 --> 01:02:03.400\nHow are you today?\n'
+    );
+  });
+});
+
+describe('toPlainText', () => {
+  it('prefixes clock times and indents translations under the title', () => {
+    expect(toPlainText(sentences, { 'How are you today?': 'Comment ça va ?' }, 'Greetings')).toBe(
+      'Greetings\n\n[0:00] Hello there.\n[0:02] How are you today?\n    Comment ça va ?\n'
+    );
+  });
+});
+
+describe('Anki export', () => {
+  it('quotes CSV fields with commas, quotes or newlines', () => {
+    const csv = toAnkiCsv([sentence('Hello, "world".', 61, 62)], { 'Hello, "world".': 'Line one\nline two' }, 'Talk');
+
+    expect(csv.split('\n').slice(0, 3)).toEqual(['#separator:Comma', '#html:false', '#columns:Front;Back;Source']);
+    expect(csv).toContain('"Hello, ""world""."');
+    expect(csv).toContain('"Line one\nline two"');
+    expect(csv.endsWith(',Talk @ 1:01\n')).toBe(true);
+  });
+
+  it('leaves plain CSV fields unquoted', () => {
+    expect(toAnkiCsv([sentence('Plain text', 0, 1)])).toBe(
+      '#separator:Comma\n#html:false\n#columns:Front;Back;Source\nPlain text,,0:00\n'
+    );
+  });
+
+  it('flattens tabs and newlines in TSV fields', () => {
+    const tsv = toAnkiTsv([sentence('Tab\there', 0, 1)], { 'Tab\there': 'Line one\r\nline\t\ttwo' });
+
+    expect(tsv.split('\n')[0]).toBe('#separator:Tab');
+    expect(tsv.split('\n')[3]).toBe('Tab here\tLine one line two\t0:00');
+  });
+});
+
+describe('getExportFileName', () => {
+  it('replaces characters file systems reject', () => {
+    expect(getExportFileName('My Video: Part 1?', 'srt')).toBe('My-Video-Part-1.srt');
+    expect(getExportFileName('日本語 タイトル', 'anki-tsv')).toBe('日本語-タイトル.tsv');
+    expect(getExportFileName('???', 'vtt')).toBe('transcript.vtt');
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('reads SRT, VTT and short VTT timestamps', () => {
+    expect(parseTimestamp('01:02:03,500')).toBe(3723.5);
+    expect(parseTimestamp('01:02:03.5')).toBe(3723.5);
+    expect(parseTimestamp(' 02:03.045 ')).toBe(123.045);
+    expect(parseTimestamp('2:03')).toBeNull();
+  });
+});
+
+describe('parseSubtitles', () => {
+  const cues = sentences.map(s => ({ text: s.text, start: s.start, dur: expect.closeTo(s.duration, 6) }));
+
+  it('round-trips SRT and VTT exports', () => {
+    expect(parseSubtitles(toSrt(sentences))).toEqual(cues);
+    expect(parseSubtitles(toVtt(sentences))).toEqual(cues);
+  });
+
+  it('joins a translation line into the cue text', () => {
+    const translations = { 'Hello there.': 'Bonjour.' };
+
+    expect(parseSubtitles(toSrt(sentences, translations))[0].text).toBe('Hello there. Bonjour.');
+    expect(parseSubtitles(toVtt(sentences, translations))[0].text).toBe('Hello there. Bonjour.');
+  });
+
+  it('drops headers, notes, cue settings and inline tags', () => {
+    const vtt = '\uFEFFWEBVTT\r\n\r\nNOTE made by hand\r\n\r\n' +
+      'intro\r\n00:05.000 --> 00:06.000 align:start\r\n<i>Second</i> {\\an8}cue\r\n\r\n' +
+      '00:01.000 --> 00:02.000\r\n<c.yellow>First</c>\r\n\r\n' +
+      '00:03.000 --> 00:03.000\r\nZero length\r\n';
+
+    expect(parseSubtitles(vtt)).toEqual([
+      { text: 'First', start: 1, dur: 1 },
+      { text: 'Second cue', start: 5, dur: 1 },
+    ]);
+  });
+});
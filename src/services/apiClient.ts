@@ -0,0 +1,51 @@
+import type { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { getAccessToken, refreshAccessToken } from './authService';
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { authRetried?: boolean };
+
+const withAuthHeader = (init: RequestInit, token: string | null): RequestInit => {
+  if (!token) return init;
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  return { ...init, headers };
+};
+
+// fetch() for backend calls - sends the signed-in user's token and retries once with a fresh one on 401
+export const authFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const token = await getAccessToken();
+  const response = await fetch(url, withAuthHeader(init, token));
+  if (response.status !== 401 || !token) {
+    return response;
+  }
+
+  const refreshed = await refreshAccessToken();
+  return refreshed ? fetch(url, withAuthHeader(init, refreshed)) : response;
+};
+
+// Same for an axios instance
+export const withAuth = (client: AxiosInstance): AxiosInstance => {
+  client.interceptors.request.use(async config => {
+    const token = await getAccessToken();
+    if (token) {
+      config.headers.set('Authorization', `Bearer ${token}`);
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as RetriableRequestConfig | undefined;
+    if (error.response?.status !== 401 || !config || config.authRetried || !config.headers.has('Authorization')) {
+      throw error;
+    }
+
+    const refreshed = await refreshAccessToken();
+    if (!refreshed) {
+      throw error;
+    }
+    config.authRetried = true;
+    config.headers.set('Authorization', `Bearer ${refreshed}`);
+    return client.request(config);
+  });
+
+  return client;
+};
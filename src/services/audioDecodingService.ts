@@ -0,0 +1,85 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { PcmAudio, parseWav } from './intonationService';
+
+// Decode at a low sample rate - enough for pitch tracking and keeps long tracks small in memory
+const DECODE_SAMPLE_RATE = 16000;
+
+// Only the most recent original track is kept decoded
+let decodedTrackCache: { uri: string; audio: PcmAudio } | null = null;
+
+const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+const decodeOnWeb = async (uri: string): Promise<PcmAudio> => {
+  const response = await fetch(uri);
+  if (!response.ok) {
+    throw new Error(`Failed to download audio: ${response.status}`);
+  }
+  const arrayBuffer = await response.arrayBuffer();
+
+  // OfflineAudioContext resamples to its own rate while decoding
+  const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  const audioBuffer = await context.decodeAudioData(arrayBuffer);
+
+  const samples = new Float32Array(audioBuffer.length);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const channelData = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < channelData.length; i++) {
+      samples[i] += channelData[i] / audioBuffer.numberOfChannels;
+    }
+  }
+
+  return { sampleRate: audioBuffer.sampleRate, samples };
+};
+
+// Native platforms have no built-in decoder, so only uncompressed WAV files can be analyzed
+const decodeOnNative = async (uri: string): Promise<PcmAudio> => {
+  let localUri = uri;
+  if (uri.startsWith('http')) {
+    localUri = `${FileSystem.cacheDirectory}analysis_${Date.now()}`;
+    await FileSystem.downloadAsync(uri, localUri);
+  }
+
+  try {
+    const base64 = await FileSystem.readAsStringAsync(localUri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return parseWav(base64ToArrayBuffer(base64));
+  } finally {
+    if (localUri !== uri) {
+      await FileSystem.deleteAsync(localUri, { idempotent: true });
+    }
+  }
+};
+
+// Decode an audio file or URL to mono PCM
+export const decodeAudio = async (uri: string): Promise<PcmAudio> => {
+  try {
+    console.log('🎼 Decoding audio for analysis:', uri.substring(0, 60) + '...');
+    return Platform.OS === 'web' ? await decodeOnWeb(uri) : await decodeOnNative(uri);
+  } catch (error) {
+    console.error('❌ Audio decoding error:', error);
+    throw new Error('Failed to decode audio: ' + (error instanceof Error ? error.message : 'Unknown error'));
+  }
+};
+
+// Decode the full original track once and reuse it for every sentence
+export const decodeTrack = async (uri: string): Promise<PcmAudio> => {
+  if (decodedTrackCache?.uri === uri) {
+    return decodedTrackCache.audio;
+  }
+
+  const audio = await decodeAudio(uri);
+  decodedTrackCache = { uri, audio };
+  return audio;
+};
+
+// Whether intonation analysis can run for compressed audio (original tracks, m4a recordings)
+export const canDecodeCompressedAudio = (): boolean => Platform.OS === 'web';
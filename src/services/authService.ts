@@ -0,0 +1,209 @@
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import { jwtDecode } from 'jwt-decode';
+import { API_CONFIG } from '../config/api';
+import { getItem, setItem, removeItem } from './storageService';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+}
+
+interface AuthSession {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export type AuthListener = (user: AuthUser | null) => void;
+
+// SecureStore keys only allow letters, digits, '.', '-' and '_'
+const SESSION_KEY = 'auth_session';
+// Refresh a little before the access token actually expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+let currentSession: AuthSession | null | undefined; // undefined until read from storage
+let refreshPromise: Promise<string | null> | null = null;
+const listeners = new Set<AuthListener>();
+
+// Tokens go to the keychain/keystore on native. Web has no secure store, so it falls back to localStorage.
+const readSession = async (): Promise<AuthSession | null> => {
+  if (Platform.OS === 'web') {
+    return getItem<AuthSession>(SESSION_KEY);
+  }
+  try {
+    const raw = await SecureStore.getItemAsync(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as AuthSession) : null;
+  } catch (error) {
+    console.error('❌ Failed to read auth session:', error);
+    return null;
+  }
+};
+
+const writeSession = async (session: AuthSession | null): Promise<void> => {
+  if (Platform.OS === 'web') {
+    await (session ? setItem(SESSION_KEY, session) : removeItem(SESSION_KEY));
+  } else if (session) {
+    await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify(session));
+  } else {
+    await SecureStore.deleteItemAsync(SESSION_KEY);
+  }
+};
+
+const getSession = async (): Promise<AuthSession | null> => {
+  if (currentSession === undefined) {
+    currentSession = await readSession();
+  }
+  return currentSession;
+};
+
+const setSession = async (session: AuthSession | null): Promise<void> => {
+  const userChanged = currentSession?.user.id !== session?.user.id;
+  currentSession = session;
+  await writeSession(session);
+  if (userChanged) {
+    listeners.forEach(listener => listener(session ? session.user : null));
+  }
+};
+
+// Expiry time in ms, 0 when the token can't be decoded
+const getTokenExpiry = (token: string): number => {
+  try {
+    const { exp } = jwtDecode(token);
+    return exp ? exp * 1000 : Infinity;
+  } catch (error) {
+    return 0;
+  }
+};
+
+const getErrorMessage = async (response: Response, fallback: string): Promise<string> => {
+  try {
+    const data = await response.json();
+    return data.error || data.message || fallback;
+  } catch (error) {
+    return fallback;
+  }
+};
+
+const requestSession = async (path: 'register' | 'login', body: object, fallbackError: string): Promise<AuthUser> => {
+  const response = await fetch(`${API_CONFIG.BASE_URL}/auth/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response, fallbackError));
+  }
+
+  const data = await response.json();
+  await setSession({ user: data.user, accessToken: data.accessToken, refreshToken: data.refreshToken });
+  console.log('🔐 Signed in as', data.user.email);
+  return data.user;
+};
+
+export const signUp = async (email: string, password: string, name?: string): Promise<AuthUser> => {
+  return requestSession('register', { email: email.trim(), password, name: name?.trim() || undefined }, 'Failed to create account');
+};
+
+export const signIn = async (email: string, password: string): Promise<AuthUser> => {
+  return requestSession('login', { email: email.trim(), password }, 'Failed to sign in');
+};
+
+// Forget the tokens locally even when the server can't be told
+export const signOut = async (): Promise<void> => {
+  const session = await getSession();
+  if (!session) return;
+
+  try {
+    await fetch(`${API_CONFIG.BASE_URL}/auth/logout`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refreshToken: session.refreshToken }),
+    });
+  } catch (error) {
+    console.warn('⚠️ Logout request failed:', error);
+  }
+  await setSession(null);
+  console.log('🔓 Signed out');
+};
+
+export const getCurrentUser = async (): Promise<AuthUser | null> => {
+  return (await getSession())?.user || null;
+};
+
+// Called with the new user (or null) whenever someone signs in or out. Returns an unsubscribe function.
+export const onAuthChange = (listener: AuthListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Get a new access token. Concurrent callers share one request; a rejected refresh token signs the user out.
+export const refreshAccessToken = async (): Promise<string | null> => {
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = (async () => {
+    const session = await getSession();
+    if (!session) return null;
+
+    try {
+      const response = await fetch(`${API_CONFIG.BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken: session.refreshToken }),
+      });
+
+      if (response.status === 401 || response.status === 403) {
+        console.warn('⚠️ Session expired, signing out');
+        await setSession(null);
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Token refresh failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      await setSession({
+        ...session,
+        accessToken: data.accessToken,
+        refreshToken: data.refreshToken || session.refreshToken, // Servers that rotate send a new one
+      });
+      console.log('🔄 Access token refreshed');
+      return data.accessToken as string;
+    } catch (error) {
+      console.error('❌ Error refreshing token:', error);
+      return null;
+    }
+  })();
+
+  try {
+    return await refreshPromise;
+  } finally {
+    refreshPromise = null;
+  }
+};
+
+// Access token for the next request (refreshed when close to expiry), or null for guests
+export const getAccessToken = async (): Promise<string | null> => {
+  const session = await getSession();
+  if (!session) return null;
+
+  const expiresAt = getTokenExpiry(session.accessToken);
+  if (expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+    return session.accessToken;
+  }
+
+  const refreshed = await refreshAccessToken();
+  if (refreshed) return refreshed;
+  // Offline: keep using the old token while it is still valid (unless the refresh signed the user out)
+  return currentSession && expiresAt > Date.now() ? session.accessToken : null;
+};
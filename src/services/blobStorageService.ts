@@ -0,0 +1,64 @@
+// Binary storage for web (recorded audio, downloaded tracks).
+// Blobs go to IndexedDB so they don't count against the localStorage quota storageService shares
+// with every other saved value. Native platforms keep these as files in the document directory instead.
+const DB_NAME = 'speakflow';
+const STORE_NAME = 'blobs';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = makeRequest(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Read a stored blob (null if missing or unreadable)
+export const getBlob = async (key: string): Promise<Blob | null> => {
+  try {
+    return (await runRequest<Blob | undefined>('readonly', store => store.get(key))) || null;
+  } catch (error) {
+    console.error(`❌ Blob read failed for "${key}":`, error);
+    return null;
+  }
+};
+
+// Write a blob (replaces any previous blob)
+export const putBlob = async (key: string, blob: Blob): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put(blob, key));
+  } catch (error) {
+    console.error(`❌ Blob write failed for "${key}":`, error);
+    throw new Error('Failed to save data: ' + (error instanceof Error ? error.message : 'Unknown error'));
+  }
+};
+
+// Delete a stored blob
+export const deleteBlob = async (key: string): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.delete(key));
+  } catch (error) {
+    console.error(`❌ Blob delete failed for "${key}":`, error);
+  }
+};
@@ -0,0 +1,302 @@
+import { API_CONFIG, YOUTUBE_CONFIG } from '../config/api';
+import { authFetch } from './apiClient';
+import { getCurrentUser } from './authService';
+import { getItem, setItem } from './storageService';
+import { extractPlaylistId, getPlaylist } from './youtubeService';
+import { downloadOfflinePack, getOfflinePack } from './offlinePackService';
+
+// Playlists are made by the learner, curated courses come from the server (e.g. "Job interview English")
+export type CourseKind = 'playlist' | 'curated';
+
+export interface CourseVideo {
+  videoId: string;
+  title: string;
+  thumbnail: string;
+  channelTitle: string;
+  duration?: string;
+  tooLong?: boolean; // Over YOUTUBE_CONFIG.MAX_DURATION_MINUTES - listed but left out of the practice order
+}
+
+// An ordered collection of videos. Deleted courses stay as tombstones until synced.
+export interface Course {
+  id: string;
+  kind: CourseKind;
+  title: string;
+  description?: string;
+  sourcePlaylistId?: string; // YouTube playlist it was imported from
+  videos: CourseVideo[];
+  createdAt: string;
+  updatedAt: string;
+  deleted?: boolean;
+}
+
+// Completion is per video, so a video finished in one course counts in every course that has it
+export interface VideoCompletion {
+  completed: boolean;
+  updatedAt: string;
+}
+
+export type CourseProgress = { [videoId: string]: VideoCompletion };
+
+export interface CourseProgressSummary {
+  completedCount: number;
+  totalCount: number;
+  nextVideo: CourseVideo | null; // First unfinished video, null when the course is done
+}
+
+export type CoursePrefetchProgress = (done: number, total: number) => void;
+
+const COURSES_KEY = 'courses';
+const PROGRESS_KEY = 'courses:progress';
+const SYNC_DELAY_MS = 2000;
+
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+
+const getStoredCourses = async (): Promise<Course[]> => {
+  return (await getItem<Course[]>(COURSES_KEY)) || [];
+};
+
+// Merge two copies of the same records, keeping the most recently updated one of each
+const mergeByUpdatedAt = <T extends { updatedAt: string }>(
+  local: { [key: string]: T },
+  remote: { [key: string]: T }
+): { [key: string]: T } => {
+  const merged = { ...local };
+  Object.entries(remote).forEach(([key, record]) => {
+    if (!merged[key] || record.updatedAt > merged[key].updatedAt) {
+      merged[key] = record;
+    }
+  });
+  return merged;
+};
+
+const toMap = (courses: Course[]): { [id: string]: Course } =>
+  Object.fromEntries(courses.map(course => [course.id, course]));
+
+// Push local changes shortly after the last edit
+const scheduleSync = () => {
+  if (syncTimer) clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    syncCourses().catch(error => console.warn('⚠️ Course sync failed:', error));
+  }, SYNC_DELAY_MS);
+};
+
+const saveCourse = async (course: Course): Promise<Course> => {
+  const saved = { ...course, updatedAt: new Date().toISOString() };
+  const courses = await getStoredCourses();
+  const index = courses.findIndex(c => c.id === course.id);
+  await setItem(COURSES_KEY, index >= 0 ? courses.map(c => (c.id === course.id ? saved : c)) : [saved, ...courses]);
+  scheduleSync();
+  return saved;
+};
+
+// Playlists first (newest first), then curated courses
+export const getCourses = async (): Promise<Course[]> => {
+  const courses = (await getStoredCourses()).filter(course => !course.deleted);
+  return [
+    ...courses.filter(course => course.kind === 'playlist'),
+    ...courses.filter(course => course.kind === 'curated'),
+  ];
+};
+
+export const getCourse = async (id: string): Promise<Course | null> => {
+  return (await getCourses()).find(course => course.id === id) || null;
+};
+
+export const createPlaylist = async (title: string, videos: CourseVideo[] = []): Promise<Course> => {
+  const now = new Date().toISOString();
+  return saveCourse({
+    id: `playlist-${Date.now()}`,
+    kind: 'playlist',
+    title: title.trim() || 'My Playlist',
+    videos,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const deleteCourse = async (id: string): Promise<void> => {
+  const course = (await getStoredCourses()).find(c => c.id === id);
+  if (course) {
+    await saveCourse({ ...course, deleted: true, videos: [] });
+  }
+};
+
+export const addVideoToCourse = async (courseId: string, video: CourseVideo): Promise<Course> => {
+  const course = await getCourse(courseId);
+  if (!course) {
+    throw new Error('Course not found');
+  }
+  if (course.videos.some(v => v.videoId === video.videoId)) {
+    return course;
+  }
+  return saveCourse({ ...course, videos: [...course.videos, video] });
+};
+
+export const removeVideoFromCourse = async (courseId: string, videoId: string): Promise<Course | null> => {
+  const course = await getCourse(courseId);
+  if (!course) return null;
+  return saveCourse({ ...course, videos: course.videos.filter(v => v.videoId !== videoId) });
+};
+
+// Move a video one place up (-1) or down (1)
+export const moveCourseVideo = async (courseId: string, videoId: string, direction: -1 | 1): Promise<Course | null> => {
+  const course = await getCourse(courseId);
+  if (!course) return null;
+
+  const index = course.videos.findIndex(v => v.videoId === videoId);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= course.videos.length) {
+    return course;
+  }
+
+  const videos = [...course.videos];
+  [videos[index], videos[target]] = [videos[target], videos[index]];
+  return saveCourse({ ...course, videos });
+};
+
+export const getCourseProgress = async (): Promise<CourseProgress> => {
+  return (await getItem<CourseProgress>(PROGRESS_KEY)) || {};
+};
+
+export const setVideoCompleted = async (videoId: string, completed: boolean): Promise<CourseProgress> => {
+  const progress = await getCourseProgress();
+  if ((progress[videoId]?.completed || false) === completed) {
+    return progress;
+  }
+
+  const updated = { ...progress, [videoId]: { completed, updatedAt: new Date().toISOString() } };
+  await setItem(PROGRESS_KEY, updated);
+  scheduleSync();
+  return updated;
+};
+
+export const isVideoCompleted = (progress: CourseProgress, videoId: string): boolean =>
+  progress[videoId]?.completed || false;
+
+export const summarizeCourse = (course: Course, progress: CourseProgress): CourseProgressSummary => {
+  const videos = course.videos.filter(video => !video.tooLong);
+  return {
+    completedCount: videos.filter(video => isVideoCompleted(progress, video.videoId)).length,
+    totalCount: videos.length,
+    nextVideo: videos.find(video => !isVideoCompleted(progress, video.videoId)) || null,
+  };
+};
+
+// Courses each video belongs to (for history)
+export const getCoursesByVideo = async (): Promise<{ [videoId: string]: Course[] }> => {
+  const byVideo: { [videoId: string]: Course[] } = {};
+  (await getCourses()).forEach(course => {
+    course.videos.forEach(video => {
+      byVideo[video.videoId] = [...(byVideo[video.videoId] || []), course];
+    });
+  });
+  return byVideo;
+};
+
+// Save a YouTube playlist as a playlist course. Importing the same playlist again refreshes it.
+export const importYouTubePlaylist = async (url: string): Promise<Course> => {
+  const playlistId = extractPlaylistId(url);
+  if (!playlistId) {
+    throw new Error('Not a YouTube playlist link');
+  }
+
+  const playlist = await getPlaylist(playlistId);
+  if (playlist.videos.length === 0) {
+    throw new Error('This playlist has no videos');
+  }
+
+  const maxSeconds = YOUTUBE_CONFIG.MAX_DURATION_MINUTES * 60;
+  const id = `youtube-playlist-${playlistId}`;
+  const existing = (await getStoredCourses()).find(course => course.id === id);
+  const now = new Date().toISOString();
+
+  const course = await saveCourse({
+    id,
+    kind: 'playlist',
+    title: playlist.title,
+    description: playlist.description || undefined,
+    sourcePlaylistId: playlistId,
+    videos: playlist.videos.map(video => ({
+      videoId: video.id,
+      title: video.title,
+      thumbnail: video.thumbnail,
+      channelTitle: video.channelTitle,
+      duration: video.duration,
+      tooLong: (video.durationSeconds || 0) > maxSeconds,
+    })),
+    createdAt: existing && !existing.deleted ? existing.createdAt : now,
+    updatedAt: now,
+  });
+  console.log(`📥 Imported playlist "${playlist.title}": ${course.videos.length} videos`);
+  return course;
+};
+
+// Download offline packs for every practicable video, one at a time. Failures are skipped.
+export const prefetchCourse = async (course: Course, onProgress?: CoursePrefetchProgress): Promise<number> => {
+  const videos = course.videos.filter(video => !video.tooLong);
+  let downloaded = 0;
+
+  for (let i = 0; i < videos.length; i++) {
+    onProgress?.(i, videos.length);
+    try {
+      if (!(await getOfflinePack(videos[i].videoId))) {
+        await downloadOfflinePack(videos[i].videoId);
+      }
+      downloaded++;
+    } catch (error) {
+      console.warn(`⚠️ Prefetch failed for ${videos[i].videoId}:`, error);
+    }
+  }
+
+  onProgress?.(videos.length, videos.length);
+  return downloaded;
+};
+
+// Load the latest curated courses. Ones the learner removed stay removed.
+export const refreshCuratedCourses = async (): Promise<void> => {
+  const response = await authFetch(`${API_CONFIG.BASE_URL}/courses/curated`);
+  if (!response.ok) {
+    throw new Error(`Failed to load courses: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const curated: Course[] = (data.courses || []).map((course: Course) => ({ ...course, kind: 'curated' }));
+  const merged = mergeByUpdatedAt(toMap(await getStoredCourses()), toMap(curated));
+  await setItem(COURSES_KEY, Object.values(merged));
+};
+
+// Two-way sync of playlists and progress with the backend. Local data keeps working offline and for guests.
+export const syncCourses = async (): Promise<void> => {
+  if (!(await getCurrentUser())) {
+    return;
+  }
+
+  const response = await authFetch(`${API_CONFIG.BASE_URL}/courses`);
+  if (response.status === 404) {
+    return; // Server without course sync
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load synced courses: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const courses = Object.values(mergeByUpdatedAt(toMap(await getStoredCourses()), toMap(data.courses || [])));
+  const progress = mergeByUpdatedAt(await getCourseProgress(), data.progress || {});
+
+  await setItem(COURSES_KEY, courses);
+  await setItem(PROGRESS_KEY, progress);
+
+  const pushResponse = await authFetch(`${API_CONFIG.BASE_URL}/courses`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ courses, progress }),
+  });
+  if (!pushResponse.ok) {
+    throw new Error(`Failed to sync courses: ${pushResponse.status}`);
+  }
+  console.log(`🔄 Courses synced: ${courses.length} courses`);
+};
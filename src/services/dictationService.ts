@@ -0,0 +1,166 @@
+import { getItem, setItem } from './storageService';
+import { alignWords, normalizeWords, WordDiff } from './pronunciationService';
+import { getSentenceKey } from './transcriptEditService';
+
+export interface DictationGrade {
+  accuracy: number; // 0-100
+  words: WordDiff[];
+  correctCount: number;
+  expectedCount: number;
+}
+
+export interface DictationStats {
+  attempts: number;
+  lastAccuracy: number;
+  bestAccuracy: number;
+  lastAnswer: string;
+  lastAttemptAt: string;
+}
+
+// Stats grouped by sentence key (see getSentenceKey)
+export type DictationResults = { [sentenceKey: string]: DictationStats };
+
+// Sentences last answered below this accuracy are worth revisiting
+export const WEAK_SENTENCE_ACCURACY = 80;
+
+const getResultsKey = (videoId: string) => `dictation:${videoId}`;
+
+// Informal spellings and contractions expanded to the words they stand for,
+// so "gonna" and "going to" (or "don't" and "do not") grade the same
+const EXPANSIONS: { [word: string]: string } = {
+  gonna: 'going to',
+  wanna: 'want to',
+  gotta: 'got to',
+  hafta: 'have to',
+  kinda: 'kind of',
+  sorta: 'sort of',
+  outta: 'out of',
+  lotta: 'lot of',
+  lemme: 'let me',
+  gimme: 'give me',
+  dunno: 'do not know',
+  "y'all": 'you all',
+  "let's": 'let us',
+  "can't": 'can not',
+  cannot: 'can not',
+  "won't": 'will not',
+  "shan't": 'shall not',
+  "ain't": 'is not',
+  "it's": 'it is',
+  "that's": 'that is',
+  "there's": 'there is',
+  "here's": 'here is',
+  "what's": 'what is',
+  "where's": 'where is',
+  "who's": 'who is',
+  "how's": 'how is',
+  "he's": 'he is',
+  "she's": 'she is',
+  ok: 'okay',
+};
+
+const SUFFIX_EXPANSIONS: [string, string][] = [
+  ["n't", ' not'],
+  ["'re", ' are'],
+  ["'ve", ' have'],
+  ["'ll", ' will'],
+  ["'m", ' am'],
+  ["'d", ' would'],
+];
+
+const expandWord = (word: string): string[] => {
+  if (EXPANSIONS[word]) {
+    return EXPANSIONS[word].split(' ');
+  }
+
+  for (const [suffix, expansion] of SUFFIX_EXPANSIONS) {
+    if (word.endsWith(suffix) && word.length > suffix.length) {
+      return (word.slice(0, -suffix.length) + expansion).split(' ');
+    }
+  }
+
+  return [word];
+};
+
+// Normalize case, punctuation and contractions for comparison
+export const normalizeDictationWords = (text: string): string[] => {
+  return normalizeWords(text).flatMap(expandWord);
+};
+
+const getEditDistance = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+// Accept small typos in longer words ("recieve" for "receive"), but not in short ones
+export const isFuzzyWordMatch = (expected: string, typed: string): boolean => {
+  if (expected === typed) return true;
+
+  const allowedEdits = expected.length >= 8 ? 2 : expected.length >= 4 ? 1 : 0;
+  return allowedEdits > 0 && getEditDistance(expected, typed) <= allowedEdits;
+};
+
+// Grade what the learner typed against the sentence
+export const gradeDictation = (expectedText: string, typedText: string): DictationGrade => {
+  const expected = normalizeDictationWords(expectedText);
+  const typed = normalizeDictationWords(typedText);
+  const words = alignWords(expected, typed, isFuzzyWordMatch);
+
+  const correctCount = words.filter(w => w.type === 'correct').length;
+  const extraCount = words.filter(w => w.type === 'extra').length;
+  const total = expected.length + extraCount;
+
+  return {
+    accuracy: total > 0 ? Math.round((correctCount / total) * 100) : 0,
+    words,
+    correctCount,
+    expectedCount: expected.length,
+  };
+};
+
+// Get dictation stats for every sentence of a video
+export const getDictationResults = async (videoId: string): Promise<DictationResults> => {
+  return (await getItem<DictationResults>(getResultsKey(videoId))) || {};
+};
+
+// Save a graded attempt and return the updated stats for the sentence
+export const recordDictationAttempt = async (
+  videoId: string,
+  sentenceStart: number,
+  answer: string,
+  grade: DictationGrade
+): Promise<DictationStats> => {
+  const results = await getDictationResults(videoId);
+  const key = getSentenceKey(sentenceStart);
+  const previous = results[key];
+
+  const stats: DictationStats = {
+    attempts: (previous?.attempts || 0) + 1,
+    lastAccuracy: grade.accuracy,
+    bestAccuracy: Math.max(previous?.bestAccuracy || 0, grade.accuracy),
+    lastAnswer: answer,
+    lastAttemptAt: new Date().toISOString(),
+  };
+
+  results[key] = stats;
+  await setItem(getResultsKey(videoId), results);
+
+  console.log(`✍️ Dictation attempt ${stats.attempts} for sentence at ${key}s: ${grade.accuracy}%`);
+  return stats;
+};
+
+export const isWeakSentence = (stats?: DictationStats): boolean =>
+  !!stats && stats.lastAccuracy < WEAK_SENTENCE_ACCURACY;
@@ -0,0 +1,72 @@
+import axios from 'axios';
+import { DICTIONARY_CONFIG } from '../config/api';
+
+export interface DictionaryMeaning {
+  partOfSpeech: string;
+  definitions: string[];
+  example?: string;
+}
+
+export interface DictionaryEntry {
+  word: string;
+  phonetic?: string;
+  meanings: DictionaryMeaning[];
+}
+
+const MAX_DEFINITIONS_PER_MEANING = 3;
+
+const dictionaryClient = axios.create({
+  baseURL: DICTIONARY_CONFIG.BASE_URL,
+  timeout: DICTIONARY_CONFIG.TIMEOUT,
+});
+
+// Lookups are cached for the session - the same words come up in every sentence
+const entryCache = new Map<string, DictionaryEntry | null>();
+
+// Strip punctuation around a tapped token ("world," -> "world") but keep inner apostrophes/hyphens
+export const cleanWord = (token: string): string => {
+  return token
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, '');
+};
+
+// Look up a word. Resolves to null when the dictionary has no entry for it.
+export const lookupWord = async (word: string): Promise<DictionaryEntry | null> => {
+  const key = cleanWord(word);
+  if (!key) {
+    return null;
+  }
+
+  if (entryCache.has(key)) {
+    return entryCache.get(key) || null;
+  }
+
+  try {
+    const response = await dictionaryClient.get(`/${encodeURIComponent(key)}`);
+    const [first] = response.data as any[];
+
+    const entry: DictionaryEntry = {
+      word: first.word,
+      phonetic: first.phonetic || first.phonetics?.find((p: any) => p.text)?.text,
+      meanings: (first.meanings || []).map((meaning: any) => ({
+        partOfSpeech: meaning.partOfSpeech,
+        definitions: (meaning.definitions || [])
+          .slice(0, MAX_DEFINITIONS_PER_MEANING)
+          .map((d: any) => d.definition),
+        example: meaning.definitions?.find((d: any) => d.example)?.example,
+      })),
+    };
+
+    entryCache.set(key, entry);
+    return entry;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      console.log(`📖 No dictionary entry for "${key}"`);
+      entryCache.set(key, null);
+      return null;
+    }
+    console.error('Error looking up word:', error);
+    throw new Error('Failed to look up word');
+  }
+};
@@ -0,0 +1,197 @@
+import { getItem, setItem } from './storageService';
+import { getCachedTranscript } from './transcriptCacheService';
+import { getYouTubeSubtitles, ProcessedSentence } from './whisperService';
+import { COMMON_WORDS } from '../data/commonWords';
+import { IDIOMS } from '../data/idioms';
+
+export type CefrLevel = 'A2' | 'B1' | 'B2' | 'C1';
+
+// How hard a video is to follow, estimated from its transcript alone
+export interface DifficultyProfile {
+  level: CefrLevel;
+  score: number; // 0-100
+  wordsPerMinute: number;
+  rareWordRatio: number; // Share of words outside the common word list (0-1)
+  averageSentenceLength: number; // Words per sentence
+  idiomsPer100Words: number;
+  wordCount: number;
+  version: number;
+}
+
+// Bump when the scoring changes so saved profiles are recomputed
+const SCORING_VERSION = 1;
+
+// Each metric maps linearly from its "easy" to its "hard" value onto 0-1
+const METRICS = {
+  wordsPerMinute: { easy: 110, hard: 190, weight: 0.35 },
+  rareWordRatio: { easy: 0.04, hard: 0.2, weight: 0.35 },
+  averageSentenceLength: { easy: 7, hard: 22, weight: 0.2 },
+  idiomsPer100Words: { easy: 0, hard: 1.2, weight: 0.1 },
+};
+
+// Upper score bound for each level (anything above is C1)
+const LEVEL_THRESHOLDS: [CefrLevel, number][] = [
+  ['A2', 30],
+  ['B1', 50],
+  ['B2', 70],
+];
+
+// Transcripts this short give noisy numbers
+const MIN_WORDS = 30;
+
+const getDifficultyKey = (videoId: string) => `difficulty:${videoId}`;
+
+const normalize = (value: number, { easy, hard }: { easy: number; hard: number }) =>
+  Math.min(1, Math.max(0, (value - easy) / (hard - easy)));
+
+// Try the word and its likely base forms against the common word list
+const isCommonWord = (word: string): boolean => {
+  // Contractions (don't, we'll, I'm) are all function words
+  if (COMMON_WORDS.has(word) || /['’]/.test(word)) return true;
+
+  const candidates = [
+    word.replace(/ies$/, 'y'),
+    word.replace(/ied$/, 'y'),
+    word.replace(/es$/, ''),
+    word.replace(/s$/, ''),
+    word.replace(/ed$/, ''),
+    word.replace(/ed$/, 'e'),
+    word.replace(/d$/, ''),
+    word.replace(/ing$/, ''),
+    word.replace(/ing$/, 'e'),
+    word.replace(/(.)\1ing$/, '$1'),
+    word.replace(/(.)\1ed$/, '$1'),
+    word.replace(/ly$/, ''),
+    word.replace(/ily$/, 'y'),
+    word.replace(/er$/, ''),
+    word.replace(/est$/, ''),
+    word.replace(/ier$/, 'y'),
+    word.replace(/iest$/, 'y'),
+  ];
+  return candidates.some(candidate => candidate !== word && candidate.length > 1 && COMMON_WORDS.has(candidate));
+};
+
+interface Token {
+  word: string; // Lowercased, without a possessive 's
+  isProperNoun: boolean; // Capitalized mid-sentence - names shouldn't count as rare vocabulary
+}
+
+const tokenize = (text: string): Token[] => {
+  const matches = text.match(/[A-Za-z]+(?:['’][A-Za-z]+)*/g) || [];
+  return matches.map((raw, i) => ({
+    word: raw.toLowerCase().replace(/['’]s$/, ''),
+    isProperNoun: i > 0 && /^[A-Z][a-z]/.test(raw),
+  }));
+};
+
+const countIdioms = (text: string): number => {
+  const normalized = ` ${text.toLowerCase().replace(/[^a-z'\- ]+/g, ' ').replace(/\s+/g, ' ')} `;
+  return IDIOMS.reduce((count, idiom) => count + (normalized.split(` ${idiom} `).length - 1), 0);
+};
+
+const getLevel = (score: number): CefrLevel => {
+  const match = LEVEL_THRESHOLDS.find(([, upperBound]) => score < upperBound);
+  return match ? match[0] : 'C1';
+};
+
+// Deterministic difficulty estimate for a transcript. Returns null when there is too little text.
+export const estimateDifficulty = (sentences: ProcessedSentence[]): DifficultyProfile | null => {
+  let wordCount = 0;
+  let rareCount = 0;
+  let vocabularyCount = 0;
+  let speakingSeconds = 0;
+  let timedWords = 0;
+  let idiomCount = 0;
+
+  sentences.forEach(sentence => {
+    const tokens = tokenize(sentence.text);
+    wordCount += tokens.length;
+    idiomCount += countIdioms(sentence.text);
+
+    tokens.forEach(token => {
+      if (token.isProperNoun) return;
+      vocabularyCount++;
+      if (!isCommonWord(token.word)) rareCount++;
+    });
+
+    // Bad timings (imported or edited sentences) would skew the rate
+    const duration = sentence.end - sentence.start;
+    if (duration > 0.3 && tokens.length > 0) {
+      speakingSeconds += duration;
+      timedWords += tokens.length;
+    }
+  });
+
+  if (wordCount < MIN_WORDS) {
+    return null;
+  }
+
+  const wordsPerMinute = speakingSeconds > 0 ? (timedWords / speakingSeconds) * 60 : 0;
+  const rareWordRatio = vocabularyCount > 0 ? rareCount / vocabularyCount : 0;
+  const averageSentenceLength = wordCount / sentences.length;
+  const idiomsPer100Words = (idiomCount / wordCount) * 100;
+
+  const metrics = { wordsPerMinute, rareWordRatio, averageSentenceLength, idiomsPer100Words };
+  const weighted = (Object.keys(METRICS) as (keyof typeof METRICS)[]).reduce(
+    (sum, key) => sum + normalize(metrics[key], METRICS[key]) * METRICS[key].weight,
+    0
+  );
+  const score = Math.round(weighted * 100);
+
+  return {
+    level: getLevel(score),
+    score,
+    wordsPerMinute: Math.round(wordsPerMinute),
+    rareWordRatio: Math.round(rareWordRatio * 1000) / 1000,
+    averageSentenceLength: Math.round(averageSentenceLength * 10) / 10,
+    idiomsPer100Words: Math.round(idiomsPer100Words * 100) / 100,
+    wordCount,
+    version: SCORING_VERSION,
+  };
+};
+
+export const getSavedDifficulty = async (videoId: string): Promise<DifficultyProfile | null> => {
+  const saved = await getItem<DifficultyProfile>(getDifficultyKey(videoId));
+  return saved && saved.version === SCORING_VERSION ? saved : null;
+};
+
+// Estimate and remember the level once a transcript is loaded
+export const saveDifficulty = async (
+  videoId: string,
+  sentences: ProcessedSentence[]
+): Promise<DifficultyProfile | null> => {
+  const profile = estimateDifficulty(sentences);
+  if (profile) {
+    await setItem(getDifficultyKey(videoId), profile);
+  }
+  return profile;
+};
+
+// Known level without any network calls - a saved profile or the cached transcript (for lists)
+export const getVideoDifficulty = async (videoId: string): Promise<DifficultyProfile | null> => {
+  const saved = await getSavedDifficulty(videoId);
+  if (saved) return saved;
+
+  const cached = await getCachedTranscript(videoId);
+  return cached ? saveDifficulty(videoId, cached.sentences) : null;
+};
+
+export const getVideoDifficulties = async (videoIds: string[]): Promise<{ [videoId: string]: DifficultyProfile }> => {
+  const profiles: { [videoId: string]: DifficultyProfile } = {};
+  await Promise.all(
+    videoIds.map(async videoId => {
+      const profile = await getVideoDifficulty(videoId).catch(() => null);
+      if (profile) profiles[videoId] = profile;
+    })
+  );
+  return profiles;
+};
+
+// Level for a single video, fetching its YouTube subtitles if nothing is known yet (no Whisper run)
+export const estimateVideoDifficulty = async (videoId: string): Promise<DifficultyProfile | null> => {
+  const known = await getVideoDifficulty(videoId);
+  if (known) return known;
+
+  const subtitles = await getYouTubeSubtitles(videoId);
+  return subtitles.success ? saveDifficulty(videoId, subtitles.sentences) : null;
+};
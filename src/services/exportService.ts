@@ -0,0 +1,63 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type { PracticeSentence } from './youtubeService';
+import type { SentenceTranslations } from './translationService';
+import {
+  serializeTranscript,
+  getExportFileName,
+  TRANSCRIPT_FORMATS,
+  TranscriptFormat,
+} from './transcriptFormatService';
+
+const EXPORT_DIR = `${FileSystem.cacheDirectory}exports/`;
+
+// Web has no share sheet for files - hand the browser a download instead
+const downloadOnWeb = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Serialize the transcript and open the share sheet (native) or download the file (web)
+export const exportTranscript = async (
+  format: TranscriptFormat,
+  sentences: PracticeSentence[],
+  translations: SentenceTranslations,
+  title: string
+): Promise<void> => {
+  try {
+    const info = TRANSCRIPT_FORMATS.find(f => f.format === format)!;
+    const fileName = getExportFileName(title, format);
+    const content = serializeTranscript(format, sentences, translations, title);
+
+    console.log(`📤 Exporting ${sentences.length} sentences as ${info.label}:`, fileName);
+
+    if (Platform.OS === 'web') {
+      downloadOnWeb(fileName, content, info.mimeType);
+      return;
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    await FileSystem.makeDirectoryAsync(EXPORT_DIR, { intermediates: true });
+    const fileUri = `${EXPORT_DIR}${fileName}`;
+    await FileSystem.writeAsStringAsync(fileUri, content, { encoding: FileSystem.EncodingType.UTF8 });
+
+    await Sharing.shareAsync(fileUri, {
+      mimeType: info.mimeType,
+      dialogTitle: `Export ${info.label}`,
+    });
+  } catch (error) {
+    console.error('❌ Transcript export failed:', error);
+    throw new Error('Failed to export transcript: ' + (error instanceof Error ? error.message : 'Unknown error'));
+  }
+};
@@ -1,4 +1,10 @@
 import { API_CONFIG } from '../config/api';
+import { authFetch } from './apiClient';
+import { getCurrentUser } from './authService';
+import { getItem, setItem, removeItem } from './storageService';
+import { removeCachedTranscript } from './transcriptCacheService';
+import { clearTranslations } from './translationService';
+import type { TranscriptSource } from './whisperService';
 
 export interface HistoryVideo {
   videoId: string;
@@ -7,7 +13,7 @@ export interface HistoryVideo {
   channelTitle: string;
   duration: string;
   durationSeconds: number;
-  transcriptSource: 'youtube' | 'whisper';
+  transcriptSource: TranscriptSource;
   firstAccessed: string;
   lastAccessed: string;
   accessCount: number;
@@ -31,15 +37,79 @@ export interface AddToHistoryData {
   channelTitle: string;
   duration?: string;
   durationSeconds?: number;
-  transcriptSource: 'youtube' | 'whisper';
+  transcriptSource: TranscriptSource;
 }
 
+// Signed-out learners keep their history on the device (the server history belongs to accounts)
+const GUEST_HISTORY_KEY = 'history:guest';
+
+const isGuest = async (): Promise<boolean> => (await getCurrentUser()) === null;
+
+const getGuestHistory = async (): Promise<HistoryVideo[]> => {
+  return (await getItem<HistoryVideo[]>(GUEST_HISTORY_KEY)) || [];
+};
+
+// Guest history writes run one at a time - concurrent read-modify-writes would undo each other
+let guestHistoryWrites: Promise<void> = Promise.resolve();
+
+const queueGuestHistoryWrite = (write: () => Promise<void>): Promise<void> => {
+  const result = guestHistoryWrites.then(write);
+  guestHistoryWrites = result.catch(() => undefined);
+  return result;
+};
+
+const updateGuestHistory = (update: (history: HistoryVideo[]) => HistoryVideo[]): Promise<void> => {
+  return queueGuestHistoryWrite(async () => {
+    await setItem(GUEST_HISTORY_KEY, update(await getGuestHistory()));
+  });
+};
+
+const removeGuestHistory = (): Promise<void> => queueGuestHistoryWrite(() => removeItem(GUEST_HISTORY_KEY));
+
+// Opening a video adds it to history more than once (details, then the transcript source),
+// so only calls this long after the last access count as a new visit
+const VISIT_INTERVAL_MS = 30 * 60 * 1000;
+
+const addToGuestHistory = async (videoData: AddToHistoryData): Promise<void> => {
+  const now = new Date().toISOString();
+  await updateGuestHistory(history => {
+    const existing = history.find(video => video.videoId === videoData.videoId);
+    const isNewVisit = !existing || Date.now() - Date.parse(existing.lastAccessed) > VISIT_INTERVAL_MS;
+    const entry: HistoryVideo = {
+      videoId: videoData.videoId,
+      // Transcript-source updates pass empty details - keep what the first call stored
+      title: videoData.title || existing?.title || '',
+      thumbnail: videoData.thumbnail || existing?.thumbnail || '',
+      channelTitle: videoData.channelTitle || existing?.channelTitle || '',
+      duration: videoData.duration || existing?.duration || '',
+      durationSeconds: videoData.durationSeconds || existing?.durationSeconds || 0,
+      transcriptSource: videoData.transcriptSource,
+      firstAccessed: existing?.firstAccessed || now,
+      lastAccessed: now,
+      accessCount: (existing?.accessCount || 0) + (isNewVisit ? 1 : 0),
+      hasAudio: existing?.hasAudio || false,
+      hasTranscript: true,
+      hasWhisperCache: videoData.transcriptSource === 'whisper',
+      audioSource: existing?.audioSource,
+      lastUpdated: now,
+    };
+    // Most recent first, like the server
+    return [entry, ...history.filter(video => video.videoId !== videoData.videoId)];
+  });
+};
+
 // Get all history
 export const getHistory = async (): Promise<HistoryVideo[]> => {
   try {
     console.log('📖 Getting history...');
+
+    if (await isGuest()) {
+      const history = await getGuestHistory();
+      console.log(`✅ Guest history loaded: ${history.length} videos`);
+      return history;
+    }
     
-    const response = await fetch(`${API_CONFIG.BASE_URL}/history`);
+    const response = await authFetch(`${API_CONFIG.BASE_URL}/history`);
     
     if (!response.ok) {
       throw new Error('Failed to fetch history');
@@ -60,8 +130,13 @@ export const getHistory = async (): Promise<HistoryVideo[]> => {
 export const addToHistory = async (videoData: AddToHistoryData): Promise<void> => {
   try {
     console.log('➕ Adding to history:', videoData.title);
+
+    if (await isGuest()) {
+      await addToGuestHistory(videoData);
+      return;
+    }
     
-    const response = await fetch(`${API_CONFIG.BASE_URL}/history/add`, {
+    const response = await authFetch(`${API_CONFIG.BASE_URL}/history/add`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -90,8 +165,17 @@ export const updateAudioStatus = async (
 ): Promise<void> => {
   try {
     console.log(`🎵 Updating audio status for ${videoId}: ${hasAudio}`);
+
+    if (await isGuest()) {
+      await updateGuestHistory(history => history.map(video => (
+        video.videoId === videoId
+          ? { ...video, hasAudio, audioSource: audioSource as HistoryVideo['audioSource'], lastUpdated: new Date().toISOString() }
+          : video
+      )));
+      return;
+    }
     
-    const response = await fetch(`${API_CONFIG.BASE_URL}/history/update-audio/${videoId}`, {
+    const response = await authFetch(`${API_CONFIG.BASE_URL}/history/update-audio/${videoId}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -115,8 +199,13 @@ export const updateAudioStatus = async (
 export const removeFromHistory = async (videoId: string): Promise<void> => {
   try {
     console.log('🗑️ Removing from history:', videoId);
+
+    if (await isGuest()) {
+      await updateGuestHistory(history => history.filter(video => video.videoId !== videoId));
+      return;
+    }
     
-    const response = await fetch(`${API_CONFIG.BASE_URL}/history/${videoId}`, {
+    const response = await authFetch(`${API_CONFIG.BASE_URL}/history/${videoId}`, {
       method: 'DELETE',
     });
     
@@ -132,6 +221,16 @@ export const removeFromHistory = async (videoId: string): Promise<void> => {
   }
 };
 
+// Drop the on-device transcript and translations too - a local cache failure shouldn't fail the delete
+const removeLocalCaches = async (videoId: string): Promise<void> => {
+  await removeCachedTranscript(videoId).catch(error => {
+    console.error('⚠️ Failed to remove cached transcript:', error);
+  });
+  await clearTranslations(videoId).catch(error => {
+    console.error('⚠️ Failed to remove saved translations:', error);
+  });
+};
+
 // Delete video from history with complete cache cleanup (including S3)
 export const removeFromHistoryWithCache = async (videoId: string): Promise<{
   success: boolean;
@@ -140,17 +239,27 @@ export const removeFromHistoryWithCache = async (videoId: string): Promise<{
 }> => {
   try {
     console.log('🗑️ Completely removing from history with cache cleanup:', videoId);
-    
-    const response = await fetch(`${API_CONFIG.BASE_URL}/history/${videoId}?deleteCache=true`, {
-      method: 'DELETE',
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to remove from history');
+
+    let data;
+    if (await isGuest()) {
+      // Guests only clear what is on this device - the server cache is shared
+      const video = (await getGuestHistory()).find(v => v.videoId === videoId);
+      await updateGuestHistory(history => history.filter(v => v.videoId !== videoId));
+      data = { success: true, videoTitle: video?.title || videoId, cacheCleanup: null };
+    } else {
+      const response = await authFetch(`${API_CONFIG.BASE_URL}/history/${videoId}?deleteCache=true`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to remove from history');
+      }
+
+      data = await response.json();
     }
-    
-    const data = await response.json();
     console.log(`✅ Completely removed from history with cache:`, data);
+
+    await removeLocalCaches(videoId);
     
     return data;
     
@@ -164,8 +273,13 @@ export const removeFromHistoryWithCache = async (videoId: string): Promise<{
 export const clearHistory = async (): Promise<void> => {
   try {
     console.log('🗑️ Clearing all history...');
+
+    if (await isGuest()) {
+      await removeGuestHistory();
+      return;
+    }
     
-    const response = await fetch(`${API_CONFIG.BASE_URL}/history`, {
+    const response = await authFetch(`${API_CONFIG.BASE_URL}/history`, {
       method: 'DELETE',
     });
     
@@ -188,16 +302,24 @@ export const clearHistoryWithCache = async (): Promise<void> => {
     
     // First get all videos in history
     const historyData = await getHistory();
-    
-    // Delete each video individually with cache cleanup
-    const deletePromises = historyData.map(video => 
-      removeFromHistoryWithCache(video.videoId).catch(error => {
-        console.error(`Failed to delete ${video.videoId}:`, error);
-        return null;
-      })
-    );
-    
-    await Promise.all(deletePromises);
+
+    if (await isGuest()) {
+      // Drop the whole guest list at once - per-video removes would each rewrite it and race
+      await removeGuestHistory();
+      for (const video of historyData) {
+        await removeLocalCaches(video.videoId);
+      }
+    } else {
+      // Delete each video individually with cache cleanup
+      const deletePromises = historyData.map(video => 
+        removeFromHistoryWithCache(video.videoId).catch(error => {
+          console.error(`Failed to delete ${video.videoId}:`, error);
+          return null;
+        })
+      );
+      
+      await Promise.all(deletePromises);
+    }
     
     console.log('✅ All history and cache cleared');
     
@@ -211,8 +333,12 @@ export const clearHistoryWithCache = async (): Promise<void> => {
 export const getVideoFromHistory = async (videoId: string): Promise<HistoryVideo | null> => {
   try {
     console.log('🔍 Getting video from history:', videoId);
+
+    if (await isGuest()) {
+      return (await getGuestHistory()).find(video => video.videoId === videoId) || null;
+    }
     
-    const response = await fetch(`${API_CONFIG.BASE_URL}/history/${videoId}`);
+    const response = await authFetch(`${API_CONFIG.BASE_URL}/history/${videoId}`);
     
     if (!response.ok) {
       if (response.status === 404) {
@@ -240,4 +366,30 @@ export const isVideoInHistory = async (videoId: string): Promise<boolean> => {
     console.error('❌ Error checking if video is in history:', error);
     return false;
   }
-}; 
\ No newline at end of file
+}; 
+
+// Move the history kept while signed out into the account that just signed in.
+// Returns how many videos were merged; the guest copy is kept if the server refuses it.
+export const mergeGuestHistory = async (): Promise<number> => {
+  const guestHistory = await getGuestHistory();
+  if (guestHistory.length === 0 || await isGuest()) {
+    return 0;
+  }
+
+  console.log(`🔀 Merging ${guestHistory.length} guest videos into account history...`);
+  const response = await authFetch(`${API_CONFIG.BASE_URL}/history/merge`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ history: guestHistory }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to merge guest history');
+  }
+
+  await removeGuestHistory();
+  console.log('✅ Guest history merged');
+  return guestHistory.length;
+};
@@ -0,0 +1,300 @@
+// Intonation analysis: pitch/energy contours from raw PCM audio.
+// Pure TypeScript with no React Native imports so it can run under plain Node.
+
+export interface PcmAudio {
+  sampleRate: number;
+  samples: Float32Array; // Mono, -1 to 1
+}
+
+export interface ContourPoint {
+  time: number; // Seconds from the start of the audio
+  pitch: number | null; // Hz, null for unvoiced/silent frames
+  energy: number; // RMS, 0 to 1
+}
+
+export interface NormalizedContourPoint {
+  position: number; // 0 to 1 across the spoken part of the clip
+  semitones: number | null; // Pitch relative to the speaker's median pitch
+  energy: number; // Relative to the loudest frame, 0 to 1
+}
+
+export interface ContourOptions {
+  frameDuration?: number; // Seconds per analysis window
+  hopDuration?: number; // Seconds between windows
+  minPitch?: number; // Hz
+  maxPitch?: number; // Hz
+  clarityThreshold?: number; // Minimum normalized autocorrelation for a voiced frame
+  silenceThreshold?: number; // Frames quieter than this fraction of the loudest frame are silent
+}
+
+const DEFAULT_OPTIONS: Required<ContourOptions> = {
+  frameDuration: 0.04,
+  hopDuration: 0.02,
+  minPitch: 75,
+  maxPitch: 500,
+  clarityThreshold: 0.6,
+  silenceThreshold: 0.1,
+};
+
+// Autocorrelation above this sample rate is wasted work for speech pitch
+const ANALYSIS_SAMPLE_RATE = 16000;
+
+// Parse a RIFF/WAVE file (integer PCM or 32-bit float) into mono samples
+export const parseWav = (buffer: ArrayBuffer): PcmAudio => {
+  const view = new DataView(buffer);
+  const readTag = (offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+  if (buffer.byteLength < 12 || readTag(0) !== 'RIFF' || readTag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkId = readTag(offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      format = view.getUint16(chunkStart, true);
+      channels = view.getUint16(chunkStart + 2, true);
+      sampleRate = view.getUint32(chunkStart + 4, true);
+      bitsPerSample = view.getUint16(chunkStart + 14, true);
+      if (format === 0xfffe && chunkSize >= 26) {
+        // WAVE_FORMAT_EXTENSIBLE: the real format is the first field of the sub-format GUID
+        format = view.getUint16(chunkStart + 24, true);
+      }
+    } else if (chunkId === 'data') {
+      dataOffset = chunkStart;
+      dataLength = Math.min(chunkSize, buffer.byteLength - chunkStart);
+      break;
+    }
+
+    offset = chunkStart + chunkSize + (chunkSize % 2); // Chunks are word-aligned
+  }
+
+  if (dataOffset < 0 || channels === 0 || sampleRate === 0) {
+    throw new Error('Invalid WAV file: missing fmt or data chunk');
+  }
+
+  const isFloat = format === 3;
+  if (!isFloat && format !== 1) {
+    throw new Error(`Unsupported WAV format: ${format}`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+  const samples = new Float32Array(frameCount);
+
+  const readSample = (position: number): number => {
+    if (isFloat) {
+      return bitsPerSample === 64 ? view.getFloat64(position, true) : view.getFloat32(position, true);
+    }
+    switch (bitsPerSample) {
+      case 8:
+        return (view.getUint8(position) - 128) / 128;
+      case 16:
+        return view.getInt16(position, true) / 32768;
+      case 24: {
+        const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+        return value / 8388608;
+      }
+      case 32:
+        return view.getInt32(position, true) / 2147483648;
+      default:
+        throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+    }
+  };
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += readSample(dataOffset + (frame * channels + channel) * bytesPerSample);
+    }
+    samples[frame] = sum / channels;
+  }
+
+  return { sampleRate, samples };
+};
+
+// Cut a time range out of an audio clip
+export const sliceAudio = (audio: PcmAudio, startTime: number, endTime: number): PcmAudio => {
+  const startIndex = Math.max(0, Math.floor(startTime * audio.sampleRate));
+  const endIndex = Math.min(audio.samples.length, Math.ceil(endTime * audio.sampleRate));
+  return {
+    sampleRate: audio.sampleRate,
+    samples: audio.samples.slice(startIndex, Math.max(startIndex, endIndex)),
+  };
+};
+
+// Average neighbouring samples to bring the sample rate down to roughly ANALYSIS_SAMPLE_RATE
+const downsample = (audio: PcmAudio): PcmAudio => {
+  const factor = Math.floor(audio.sampleRate / ANALYSIS_SAMPLE_RATE);
+  if (factor <= 1) {
+    return audio;
+  }
+
+  const length = Math.floor(audio.samples.length / factor);
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) {
+      sum += audio.samples[i * factor + j];
+    }
+    samples[i] = sum / factor;
+  }
+
+  return { sampleRate: audio.sampleRate / factor, samples };
+};
+
+const getRms = (frame: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sum += frame[i] * frame[i];
+  }
+  return Math.sqrt(sum / frame.length);
+};
+
+// Estimate the pitch of one frame with normalized autocorrelation (null if unvoiced)
+export const detectPitch = (
+  frame: Float32Array,
+  sampleRate: number,
+  minPitch: number = DEFAULT_OPTIONS.minPitch,
+  maxPitch: number = DEFAULT_OPTIONS.maxPitch,
+  clarityThreshold: number = DEFAULT_OPTIONS.clarityThreshold
+): number | null => {
+  const minLag = Math.max(1, Math.floor(sampleRate / maxPitch));
+  const maxLag = Math.min(frame.length - 1, Math.ceil(sampleRate / minPitch));
+  if (maxLag <= minLag) {
+    return null;
+  }
+
+  // Remove DC offset so it doesn't dominate the correlation
+  let mean = 0;
+  for (let i = 0; i < frame.length; i++) mean += frame[i];
+  mean /= frame.length;
+  const centered = new Float32Array(frame.length);
+  for (let i = 0; i < frame.length; i++) centered[i] = frame[i] - mean;
+
+  const correlations = new Float32Array(maxLag + 2);
+  let bestCorrelation = 0;
+
+  for (let lag = minLag; lag <= maxLag + 1 && lag < frame.length; lag++) {
+    let product = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i + lag < centered.length; i++) {
+      product += centered[i] * centered[i + lag];
+      energyA += centered[i] * centered[i];
+      energyB += centered[i + lag] * centered[i + lag];
+    }
+    const denominator = Math.sqrt(energyA * energyB);
+    correlations[lag] = denominator > 0 ? product / denominator : 0;
+    if (lag <= maxLag && correlations[lag] > bestCorrelation) {
+      bestCorrelation = correlations[lag];
+    }
+  }
+
+  if (bestCorrelation < clarityThreshold) {
+    return null;
+  }
+
+  // Take the first peak close to the best one - later peaks are usually octave errors
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    const value = correlations[lag];
+    if (value >= 0.9 * bestCorrelation && value >= correlations[lag - 1] && value >= correlations[lag + 1]) {
+      // Parabolic interpolation around the peak for sub-sample precision
+      const previous = correlations[lag - 1];
+      const next = correlations[lag + 1];
+      const curvature = previous - 2 * value + next;
+      const shift = curvature !== 0 ? (0.5 * (previous - next)) / curvature : 0;
+      return sampleRate / (lag + shift);
+    }
+  }
+
+  return null;
+};
+
+// Track pitch and energy across a clip
+export const extractContour = (audio: PcmAudio, options: ContourOptions = {}): ContourPoint[] => {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const analysisAudio = downsample(audio);
+  const { sampleRate, samples } = analysisAudio;
+
+  const frameSize = Math.max(1, Math.round(settings.frameDuration * sampleRate));
+  const hopSize = Math.max(1, Math.round(settings.hopDuration * sampleRate));
+
+  const frames: { time: number; frame: Float32Array; energy: number }[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    const frame = samples.subarray(start, start + frameSize);
+    frames.push({ time: (start + frameSize / 2) / sampleRate, frame, energy: getRms(frame) });
+  }
+
+  const maxEnergy = frames.reduce((max, f) => Math.max(max, f.energy), 0);
+
+  return frames.map(({ time, frame, energy }) => {
+    const isSilent = maxEnergy === 0 || energy < maxEnergy * settings.silenceThreshold;
+    return {
+      time,
+      energy,
+      pitch: isSilent
+        ? null
+        : detectPitch(frame, sampleRate, settings.minPitch, settings.maxPitch, settings.clarityThreshold),
+    };
+  });
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Put a contour on a 0-1 time axis (leading/trailing silence removed) with pitch in
+// semitones around the speaker's median, so different voices can be compared directly
+export const normalizeContour = (
+  points: ContourPoint[],
+  silenceThreshold: number = DEFAULT_OPTIONS.silenceThreshold
+): NormalizedContourPoint[] => {
+  if (points.length === 0) {
+    return [];
+  }
+
+  const maxEnergy = points.reduce((max, p) => Math.max(max, p.energy), 0);
+  if (maxEnergy === 0) {
+    return [];
+  }
+
+  const isAudible = (point: ContourPoint) => point.energy >= maxEnergy * silenceThreshold;
+  let first = points.findIndex(isAudible);
+  let last = points.length - 1;
+  while (last > first && !isAudible(points[last])) last--;
+  if (first < 0) first = 0;
+
+  const spoken = points.slice(first, last + 1);
+  const voicedPitches = spoken.filter(p => p.pitch !== null).map(p => p.pitch as number);
+  const referencePitch = voicedPitches.length > 0 ? median(voicedPitches) : null;
+
+  const startTime = spoken[0].time;
+  const span = spoken[spoken.length - 1].time - startTime;
+
+  return spoken.map(point => ({
+    position: span > 0 ? (point.time - startTime) / span : 0,
+    semitones: point.pitch !== null && referencePitch
+      ? 12 * Math.log2(point.pitch / referencePitch)
+      : null,
+    energy: point.energy / maxEnergy,
+  }));
+};
+
+// Full pipeline: PCM audio -> normalized contour
+export const analyzeIntonation = (audio: PcmAudio, options: ContourOptions = {}): NormalizedContourPoint[] => {
+  return normalizeContour(extractContour(audio, options), options.silenceThreshold);
+};
@@ -0,0 +1,163 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import type { DocumentPickerAsset } from 'expo-document-picker';
+import { getItem, setItem } from './storageService';
+import { getAudioUrl, AudioInfo } from './youtubeService';
+import { getTranscriptData, transcribeLocalFile, TranscriptResult } from './whisperService';
+import { getTextScript, isTextScriptId, prepareTextPractice } from './textPracticeService';
+
+// What a practice session plays and transcribes: a YouTube video, the learner's own file or pasted text.
+// The media id (YouTube videoId, "local-..." or "text-...") keys recordings, edits, translations and reviews.
+export interface YouTubeMediaSource {
+  type: 'youtube';
+  videoId: string;
+}
+
+export interface LocalMediaSource {
+  type: 'local';
+  id: string;
+  uri: string; // Copied into the document directory on native, a session blob URL on web
+  name: string;
+  mimeType: string;
+  kind: 'audio' | 'video';
+  addedAt: string;
+}
+
+// Pasted text voiced by TTS - the script itself lives in textPracticeService
+export interface TextMediaSource {
+  type: 'text';
+  id: string;
+  title: string;
+}
+
+export type MediaSource = YouTubeMediaSource | LocalMediaSource | TextMediaSource;
+
+const LOCAL_MEDIA_KEY = 'local-media';
+const LOCAL_MEDIA_PREFIX = 'local-';
+const MEDIA_DIR = `${FileSystem.documentDirectory}media/`;
+
+// Picked files on web can't be reopened from a URI after a reload, so keep them for the session
+const webFiles = new Map<string, File>();
+
+export const getMediaId = (source: MediaSource): string => {
+  return source.type === 'youtube' ? source.videoId : source.id;
+};
+
+export const isLocalMediaId = (mediaId: string): boolean => mediaId.startsWith(LOCAL_MEDIA_PREFIX);
+
+export const getLocalMediaList = async (): Promise<LocalMediaSource[]> => {
+  return (await getItem<LocalMediaSource[]>(LOCAL_MEDIA_KEY)) || [];
+};
+
+// Resolve a media id saved elsewhere (review cards, vocabulary) back to its source
+export const getMediaSource = async (mediaId: string): Promise<MediaSource | null> => {
+  if (isTextScriptId(mediaId)) {
+    const script = await getTextScript(mediaId);
+    return script ? { type: 'text', id: script.id, title: script.title } : null;
+  }
+  if (!isLocalMediaId(mediaId)) {
+    return { type: 'youtube', videoId: mediaId };
+  }
+  return (await getLocalMediaList()).find(media => media.id === mediaId) || null;
+};
+
+// Register a picked audio/video file as a practice source
+export const addLocalMedia = async (asset: DocumentPickerAsset): Promise<LocalMediaSource> => {
+  const id = `${LOCAL_MEDIA_PREFIX}${Date.now()}`;
+  const mimeType = asset.mimeType || (asset.name.match(/\.(mp4|mov|webm|m4v)$/i) ? 'video/mp4' : 'audio/mpeg');
+  let uri = asset.uri;
+
+  if (Platform.OS === 'web') {
+    if (asset.file) {
+      webFiles.set(id, asset.file);
+      uri = URL.createObjectURL(asset.file);
+    }
+  } else {
+    await FileSystem.makeDirectoryAsync(MEDIA_DIR, { intermediates: true });
+    const extension = asset.name.includes('.') ? asset.name.split('.').pop() : 'm4a';
+    uri = `${MEDIA_DIR}${id}.${extension}`;
+    await FileSystem.copyAsync({ from: asset.uri, to: uri });
+  }
+
+  const media: LocalMediaSource = {
+    type: 'local',
+    id,
+    uri,
+    name: asset.name,
+    mimeType,
+    kind: mimeType.startsWith('video/') ? 'video' : 'audio',
+    addedAt: new Date().toISOString(),
+  };
+
+  await setItem(LOCAL_MEDIA_KEY, [media, ...(await getLocalMediaList())]);
+  console.log('📁 Local media added:', media.name, `(${media.kind})`);
+  return media;
+};
+
+// Audio to play for a source. Local files play straight from the device, text scripts from their TTS track.
+export const getMediaAudio = async (source: MediaSource): Promise<AudioInfo> => {
+  if (source.type === 'youtube') {
+    return getAudioUrl(source.videoId);
+  }
+
+  if (source.type === 'text') {
+    const track = await prepareTextPractice(source.id);
+    return {
+      audioUrl: track.audioUrl,
+      duration: '',
+      title: source.title,
+      format: {
+        bitrate: '',
+        codec: 'mp3',
+        container: 'mp3',
+      },
+      cached: true,
+      source: 'local',
+    };
+  }
+
+  if (Platform.OS !== 'web') {
+    const fileInfo = await FileSystem.getInfoAsync(source.uri);
+    if (!fileInfo.exists) {
+      throw new Error('The file is no longer on this device');
+    }
+  } else if (!webFiles.has(source.id)) {
+    throw new Error('The file is no longer available. Please pick it again.');
+  }
+
+  return {
+    audioUrl: source.uri,
+    duration: '',
+    title: source.name,
+    format: {
+      bitrate: '',
+      codec: '',
+      container: source.name.split('.').pop() || '',
+    },
+    cached: true,
+    source: 'local',
+  };
+};
+
+// Transcript for a source - YouTube subtitles/Whisper for videos, a Whisper upload for local files,
+// the TTS track's sentence timings for text scripts
+export const getMediaTranscript = async (
+  source: MediaSource,
+  onUpdated?: (result: TranscriptResult) => void
+): Promise<TranscriptResult> => {
+  if (source.type === 'youtube') {
+    return getTranscriptData(source.videoId, onUpdated);
+  }
+
+  if (source.type === 'text') {
+    const track = await prepareTextPractice(source.id);
+    return { success: true, source: 'tts', sentences: track.sentences };
+  }
+
+  return transcribeLocalFile(source.id, {
+    uri: source.uri,
+    name: source.name,
+    mimeType: source.mimeType,
+    file: webFiles.get(source.id),
+  });
+};
@@ -0,0 +1,126 @@
+// Minimal MPEG audio (MP3) frame reader - just enough to join TTS clips into one track
+// and know exactly where each clip starts in it. No decoding happens here.
+
+export interface Mp3Clip {
+  frames: Uint8Array; // Audio frames only (ID3 tags and Xing/Info/VBRI header frames removed)
+  duration: number; // Seconds
+}
+
+// Layer III bitrates (kbps) by bitrate index
+const BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+// Sample rates by version (3 = MPEG 1, 2 = MPEG 2, 0 = MPEG 2.5)
+const SAMPLE_RATES: { [version: number]: number[] } = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+
+interface FrameHeader {
+  length: number;
+  samples: number;
+  sampleRate: number;
+  sideInfoSize: number;
+}
+
+const readFrameHeader = (bytes: Uint8Array, offset: number): FrameHeader | null => {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const version = (bytes[offset + 1] >> 3) & 0x03;
+  const layer = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  const isMono = ((bytes[offset + 3] >> 6) & 0x03) === 3;
+
+  // Layer III only, no "free"/bad bitrates or reserved values
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isV1 = version === 3;
+  const bitrate = (isV1 ? BITRATES_V1 : BITRATES_V2)[bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+
+  return {
+    length: Math.floor(((isV1 ? 144 : 72) * bitrate) / sampleRate) + padding,
+    samples: isV1 ? 1152 : 576,
+    sampleRate,
+    sideInfoSize: isV1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17),
+  };
+};
+
+const hasTag = (bytes: Uint8Array, offset: number, tag: string): boolean => {
+  for (let i = 0; i < tag.length; i++) {
+    if (bytes[offset + i] !== tag.charCodeAt(i)) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Encoder info frames describe the original file only - they'd give players a wrong length for a joined track
+const isInfoFrame = (bytes: Uint8Array, offset: number, header: FrameHeader): boolean => {
+  const tagOffset = offset + 4 + header.sideInfoSize;
+  return hasTag(bytes, tagOffset, 'Xing') || hasTag(bytes, tagOffset, 'Info') || hasTag(bytes, offset + 36, 'VBRI');
+};
+
+export const parseMp3 = (bytes: Uint8Array): Mp3Clip => {
+  let offset = 0;
+
+  // Skip an ID3v2 tag (size is stored as a 28-bit syncsafe integer)
+  if (hasTag(bytes, 0, 'ID3') && bytes.length > 10) {
+    const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+    offset = 10 + size + ((bytes[5] & 0x10) ? 10 : 0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let totalLength = 0;
+  let duration = 0;
+
+  while (offset < bytes.length) {
+    const header = readFrameHeader(bytes, offset);
+    if (!header) {
+      // Resync on stray bytes; a trailing ID3v1 tag also ends up here
+      offset++;
+      continue;
+    }
+    if (offset + header.length > bytes.length) {
+      break; // Truncated last frame
+    }
+
+    if (!isInfoFrame(bytes, offset, header)) {
+      chunks.push(bytes.subarray(offset, offset + header.length));
+      totalLength += header.length;
+      duration += header.samples / header.sampleRate;
+    }
+    offset += header.length;
+  }
+
+  if (chunks.length === 0) {
+    throw new Error('No MP3 audio frames found');
+  }
+
+  const frames = new Uint8Array(totalLength);
+  let position = 0;
+  chunks.forEach(chunk => {
+    frames.set(chunk, position);
+    position += chunk.length;
+  });
+
+  return { frames, duration };
+};
+
+// Join clips back to back. Clips should share a sample rate (true for one TTS voice).
+export const concatMp3 = (clips: Mp3Clip[]): Uint8Array => {
+  const track = new Uint8Array(clips.reduce((sum, clip) => sum + clip.frames.length, 0));
+  let position = 0;
+  clips.forEach(clip => {
+    track.set(clip.frames, position);
+    position += clip.frames.length;
+  });
+  return track;
+};
@@ -0,0 +1,202 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { getItem, setItem, removeItem } from './storageService';
+import { getBlob, putBlob, deleteBlob } from './blobStorageService';
+import { getAudioUrl, getVideoDetails, AudioInfo } from './youtubeService';
+import { getTranscriptData, ProcessedSentence, TranscriptSource } from './whisperService';
+import { getTargetLanguage, translateTranscript, SentenceTranslations } from './translationService';
+
+// Everything ScriptPracticeScreen needs to run with no connection.
+// On native the audio and thumbnail are downloaded into the document directory;
+// web can't write files there, so web packs keep the audio in IndexedDB (thumbnails stay remote).
+export interface OfflinePack {
+  videoId: string;
+  video: {
+    title: string;
+    channelTitle: string;
+    thumbnail: string; // Local file on native
+    duration: string;
+  };
+  audio: AudioInfo; // audioUrl points at the local file on native, a session blob URL on web
+  transcript: {
+    source: TranscriptSource;
+    sentences: ProcessedSentence[];
+  };
+  translationLanguage: string;
+  translations: SentenceTranslations;
+  downloadedAt: string;
+}
+
+export type OfflinePackProgress = (message: string) => void;
+
+const PACK_IDS_KEY = 'offline-packs';
+const PACKS_DIR = `${FileSystem.documentDirectory}offline/`;
+
+const getPackKey = (videoId: string) => `offline-pack:${videoId}`;
+const getPackDir = (videoId: string) => `${PACKS_DIR}${videoId}/`;
+const getAudioBlobKey = (videoId: string) => `offline-audio:${videoId}`;
+
+// Blob URLs for web pack audio, created once per session
+const webAudioUrls = new Map<string, string>();
+
+const getPackIds = async (): Promise<string[]> => {
+  return (await getItem<string[]>(PACK_IDS_KEY)) || [];
+};
+
+// Get a downloaded pack, or null if the video isn't available offline
+export const getOfflinePack = async (videoId: string): Promise<OfflinePack | null> => {
+  const pack = await getItem<OfflinePack>(getPackKey(videoId));
+  if (!pack) {
+    return null;
+  }
+
+  if (Platform.OS === 'web') {
+    let audioUrl = webAudioUrls.get(videoId);
+    if (!audioUrl) {
+      const blob = await getBlob(getAudioBlobKey(videoId));
+      if (!blob) {
+        console.warn('⚠️ Offline pack audio is missing, ignoring pack for', videoId);
+        return null;
+      }
+      audioUrl = URL.createObjectURL(blob);
+      webAudioUrls.set(videoId, audioUrl);
+    }
+    return { ...pack, audio: { ...pack.audio, audioUrl } };
+  }
+
+  const audioInfo = await FileSystem.getInfoAsync(pack.audio.audioUrl);
+  if (!audioInfo.exists) {
+    console.warn('⚠️ Offline pack audio is missing, ignoring pack for', videoId);
+    return null;
+  }
+
+  return pack;
+};
+
+// Get every downloaded pack (used when the server can't be reached)
+export const getOfflinePacks = async (): Promise<OfflinePack[]> => {
+  const packs = await Promise.all((await getPackIds()).map(getOfflinePack));
+  return packs.filter((pack): pack is OfflinePack => pack !== null);
+};
+
+const downloadFile = async (url: string, fileUri: string): Promise<string> => {
+  const result = await FileSystem.downloadAsync(url, fileUri);
+  if (result.status !== 200) {
+    throw new Error(`Download failed with status ${result.status}`);
+  }
+  return result.uri;
+};
+
+// Download audio, transcript, translations and metadata for a video
+export const downloadOfflinePack = async (
+  videoId: string,
+  onProgress?: OfflinePackProgress
+): Promise<OfflinePack> => {
+  try {
+    console.log('📦 Downloading offline pack for', videoId);
+
+    onProgress?.('Loading video info...');
+    const details = await getVideoDetails(videoId);
+
+    onProgress?.('Loading transcript...');
+    const transcript = await getTranscriptData(videoId);
+    if (!transcript.success || transcript.sentences.length === 0) {
+      throw new Error('No transcript available');
+    }
+
+    onProgress?.('Preparing audio...');
+    const audio = await getAudioUrl(videoId);
+    let audioUrl = audio.audioUrl;
+    let thumbnail = details.thumbnail;
+
+    if (Platform.OS !== 'web') {
+      const packDir = getPackDir(videoId);
+      await FileSystem.makeDirectoryAsync(packDir, { intermediates: true });
+
+      onProgress?.('Downloading audio...');
+      const extension = audio.format?.container || 'm4a';
+      audioUrl = await downloadFile(audio.audioUrl, `${packDir}audio.${extension}`);
+
+      try {
+        thumbnail = await downloadFile(details.thumbnail, `${packDir}thumbnail.jpg`);
+      } catch (error) {
+        console.warn('⚠️ Thumbnail download failed, keeping remote URL');
+      }
+    } else {
+      onProgress?.('Downloading audio...');
+      const response = await fetch(audio.audioUrl);
+      if (!response.ok) {
+        throw new Error(`Download failed with status ${response.status}`);
+      }
+      await putBlob(getAudioBlobKey(videoId), await response.blob());
+      const previousUrl = webAudioUrls.get(videoId);
+      if (previousUrl) {
+        URL.revokeObjectURL(previousUrl);
+        webAudioUrls.delete(videoId);
+      }
+      // The remote URL expires - getOfflinePack swaps in a blob URL for the stored audio
+      audioUrl = '';
+    }
+
+    // Missing translations don't block the download
+    const translationLanguage = await getTargetLanguage();
+    let translations: SentenceTranslations = {};
+    try {
+      translations = await translateTranscript(
+        videoId,
+        transcript.sentences.map(sentence => sentence.text),
+        translationLanguage,
+        onProgress
+      );
+    } catch (error) {
+      console.warn('⚠️ Translation failed, saving pack without translations');
+    }
+
+    const pack: OfflinePack = {
+      videoId,
+      video: {
+        title: details.title,
+        channelTitle: details.channelTitle,
+        thumbnail,
+        duration: details.duration,
+      },
+      audio: { ...audio, audioUrl },
+      transcript: {
+        source: transcript.source,
+        sentences: transcript.sentences,
+      },
+      translationLanguage,
+      translations,
+      downloadedAt: new Date().toISOString(),
+    };
+
+    await setItem(getPackKey(videoId), pack);
+    const ids = await getPackIds();
+    if (!ids.includes(videoId)) {
+      await setItem(PACK_IDS_KEY, [...ids, videoId]);
+    }
+
+    console.log(`✅ Offline pack saved: ${transcript.sentences.length} sentences, ${Object.keys(translations).length} translations`);
+    return pack;
+  } catch (error) {
+    console.error('❌ Offline pack download failed:', error);
+    throw new Error('Failed to download for offline: ' + (error instanceof Error ? error.message : 'Unknown error'));
+  }
+};
+
+export const deleteOfflinePack = async (videoId: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    const audioUrl = webAudioUrls.get(videoId);
+    if (audioUrl) {
+      URL.revokeObjectURL(audioUrl);
+      webAudioUrls.delete(videoId);
+    }
+    await deleteBlob(getAudioBlobKey(videoId));
+  } else {
+    await FileSystem.deleteAsync(getPackDir(videoId), { idempotent: true });
+  }
+  await removeItem(getPackKey(videoId));
+  const ids = await getPackIds();
+  await setItem(PACK_IDS_KEY, ids.filter(id => id !== videoId));
+  console.log('🗑️ Offline pack deleted for', videoId);
+};
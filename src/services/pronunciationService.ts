@@ -0,0 +1,159 @@
+import { API_CONFIG } from '../config/api';
+import { authFetch } from './apiClient';
+import { Platform } from 'react-native';
+
+export type WordDiffType = 'correct' | 'substituted' | 'missing' | 'extra';
+
+export interface WordDiff {
+  type: WordDiffType;
+  expected?: string; // Word from the sentence (absent for extra words)
+  recognized?: string; // Word the learner said (absent for missing words)
+}
+
+export interface PronunciationResult {
+  accuracy: number; // 0-100
+  recognizedText: string;
+  words: WordDiff[];
+  correctCount: number;
+  expectedCount: number;
+  assessedAt: string;
+}
+
+// Lowercase, strip punctuation and split into words
+export const normalizeWords = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .replace(/[‘’`]/g, "'")
+    .replace(/[^a-z0-9'\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(word => word.length > 0);
+};
+
+// Align two word lists with minimum edit distance and return the word-level diff
+export const alignWords = (
+  expected: string[],
+  recognized: string[],
+  isMatch: (expectedWord: string, recognizedWord: string) => boolean = (a, b) => a === b
+): WordDiff[] => {
+  const rows = expected.length + 1;
+  const cols = recognized.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) cost[i][0] = i;
+  for (let j = 0; j < cols; j++) cost[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const matchCost = isMatch(expected[i - 1], recognized[j - 1]) ? 0 : 1;
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + matchCost, // match or substitution
+        cost[i - 1][j] + 1, // missing word
+        cost[i][j - 1] + 1 // extra word
+      );
+    }
+  }
+
+  // Walk back from the bottom-right corner to recover the alignment
+  const diff: WordDiff[] = [];
+  let i = expected.length;
+  let j = recognized.length;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const matched = isMatch(expected[i - 1], recognized[j - 1]);
+      if (cost[i][j] === cost[i - 1][j - 1] + (matched ? 0 : 1)) {
+        diff.push({
+          type: matched ? 'correct' : 'substituted',
+          expected: expected[i - 1],
+          recognized: recognized[j - 1],
+        });
+        i--;
+        j--;
+        continue;
+      }
+    }
+
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      diff.push({ type: 'missing', expected: expected[i - 1] });
+      i--;
+    } else {
+      diff.push({ type: 'extra', recognized: recognized[j - 1] });
+      j--;
+    }
+  }
+
+  return diff.reverse();
+};
+
+// Score what the learner said against the sentence text.
+// Extra words count against accuracy so that rambling doesn't score 100%.
+export const scorePronunciation = (expectedText: string, recognizedText: string): PronunciationResult => {
+  const expected = normalizeWords(expectedText);
+  const recognized = normalizeWords(recognizedText);
+  const words = alignWords(expected, recognized);
+
+  const correctCount = words.filter(w => w.type === 'correct').length;
+  const extraCount = words.filter(w => w.type === 'extra').length;
+  const total = expected.length + extraCount;
+
+  return {
+    accuracy: total > 0 ? Math.round((correctCount / total) * 100) : 0,
+    recognizedText,
+    words,
+    correctCount,
+    expectedCount: expected.length,
+    assessedAt: new Date().toISOString(),
+  };
+};
+
+// Transcribe a short learner recording with Whisper
+export const transcribeRecording = async (recordingUri: string): Promise<string> => {
+  try {
+    console.log('🎤 Transcribing learner recording...');
+
+    const formData = new FormData();
+
+    if (Platform.OS === 'web') {
+      // Web recordings are blob or data URLs - convert back to a file blob
+      const blob = await (await fetch(recordingUri)).blob();
+      formData.append('audio', blob, 'recording.webm');
+    } else {
+      const audioFile = {
+        uri: recordingUri,
+        type: 'audio/mp4',
+        name: 'recording.m4a',
+      } as any;
+      formData.append('audio', audioFile);
+    }
+    formData.append('language', 'en');
+
+    const response = await authFetch(`${API_CONFIG.BASE_URL}/whisper/transcribe`, {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Whisper API error: ${response.status} - ${errorText.substring(0, 200)}`);
+    }
+
+    const data = await response.json();
+    const transcription: string = data.transcription
+      || (data.sentences || []).map((s: { text: string }) => s.text).join(' ');
+
+    console.log('✅ Recording transcribed:', transcription);
+    return transcription.trim();
+  } catch (error) {
+    console.error('❌ Recording transcription error:', error);
+    throw new Error('Failed to transcribe recording: ' + (error instanceof Error ? error.message : 'Unknown error'));
+  }
+};
+
+// Transcribe a recording and score it against the expected sentence
+export const assessRecording = async (recordingUri: string, expectedText: string): Promise<PronunciationResult> => {
+  const recognizedText = await transcribeRecording(recordingUri);
+  const result = scorePronunciation(expectedText, recognizedText);
+  console.log(`📊 Pronunciation score: ${result.accuracy}% (${result.correctCount}/${result.expectedCount} words)`);
+  return result;
+};
@@ -0,0 +1,206 @@
+import { getItem, setItem } from './storageService';
+import { getHistory, HistoryVideo } from './historyService';
+import { searchVideos, Video } from './youtubeService';
+import { getVideoDifficulties, CefrLevel } from './difficultyService';
+
+export interface Recommendation {
+  video: Video;
+  score: number;
+  reasons: string[]; // Strongest first - the first one is shown on the card
+  level?: CefrLevel;
+}
+
+interface CachedRecommendations {
+  recommendations: Recommendation[];
+  historySignature: string; // Which history the picks were based on
+  generatedAt: string;
+}
+
+// What the learner practiced most, weighted by how often they came back to each video
+interface LearnerProfile {
+  channels: Map<string, number>; // Channel -> videos practiced
+  topics: Map<string, number>; // Title keyword -> weight
+  averageDurationSeconds: number;
+  level?: CefrLevel;
+  practicedIds: Set<string>;
+}
+
+interface Signal {
+  points: number;
+  reason: string;
+}
+
+const RECOMMENDATIONS_KEY = 'recommendations';
+const CACHE_HOURS = 12;
+const CHANNEL_QUERIES = 2;
+const TOPIC_QUERIES = 2;
+
+const LEVELS: CefrLevel[] = ['A2', 'B1', 'B2', 'C1'];
+
+// Title words that say nothing about the topic
+const TITLE_STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'what', 'when', 'your', 'you', 'how', 'why', 'are',
+  'was', 'will', 'about', 'into', 'have', 'has', 'can', 'not', 'but', 'all', 'our', 'his', 'her', 'its',
+  'video', 'official', 'full', 'episode', 'part', 'new', 'best', 'top', 'vs', 'ft', 'feat', 'english',
+  'learn', 'lesson', 'minutes', 'minute', 'shorts', 'live', 'update',
+]);
+
+const getTitleKeywords = (title: string): string[] => {
+  const words = title.toLowerCase().match(/[a-z][a-z']+/g) || [];
+  return Array.from(new Set(words.filter(word => word.length > 3 && !TITLE_STOPWORDS.has(word))));
+};
+
+const topEntries = (map: Map<string, number>, count: number): [string, number][] =>
+  Array.from(map.entries()).sort((a, b) => b[1] - a[1]).slice(0, count);
+
+const getHistorySignature = (history: HistoryVideo[]) =>
+  history.map(video => `${video.videoId}:${video.accessCount}`).sort().join('|');
+
+const buildLearnerProfile = (
+  history: HistoryVideo[],
+  levels: { [videoId: string]: CefrLevel }
+): LearnerProfile => {
+  const channels = new Map<string, number>();
+  const topics = new Map<string, number>();
+  const levelCounts = new Map<string, number>();
+  let durationTotal = 0;
+  let durationCount = 0;
+
+  history.forEach(video => {
+    if (video.channelTitle) {
+      channels.set(video.channelTitle, (channels.get(video.channelTitle) || 0) + 1);
+    }
+    getTitleKeywords(video.title).forEach(keyword => {
+      topics.set(keyword, (topics.get(keyword) || 0) + video.accessCount);
+    });
+    if (video.durationSeconds > 0) {
+      durationTotal += video.durationSeconds;
+      durationCount++;
+    }
+    const level = levels[video.videoId];
+    if (level) {
+      levelCounts.set(level, (levelCounts.get(level) || 0) + video.accessCount);
+    }
+  });
+
+  const [mostPracticedLevel] = topEntries(levelCounts, 1)[0] || [];
+
+  return {
+    channels,
+    // A keyword from one title only is noise
+    topics: new Map(Array.from(topics).filter(([, weight]) => weight > 1)),
+    averageDurationSeconds: durationCount > 0 ? durationTotal / durationCount : 0,
+    level: mostPracticedLevel as CefrLevel | undefined,
+    practicedIds: new Set(history.map(video => video.videoId)),
+  };
+};
+
+const scoreCandidate = (video: Video, profile: LearnerProfile, level?: CefrLevel): Recommendation => {
+  const signals: Signal[] = [];
+
+  const channelCount = profile.channels.get(video.channelTitle) || 0;
+  if (channelCount > 0) {
+    signals.push({
+      points: 3 * Math.min(1, channelCount / 3),
+      reason: channelCount === 1
+        ? `Because you practiced a video from ${video.channelTitle}`
+        : `Because you practiced ${channelCount} videos from ${video.channelTitle}`,
+    });
+  }
+
+  const sharedTopics = getTitleKeywords(video.title).filter(keyword => profile.topics.has(keyword));
+  if (sharedTopics.length > 0) {
+    signals.push({
+      points: 1.5 * Math.min(2, sharedTopics.length),
+      reason: `Because you practiced videos about "${sharedTopics[0]}"`,
+    });
+  }
+
+  if (level && profile.level) {
+    const levelGap = Math.abs(LEVELS.indexOf(level) - LEVELS.indexOf(profile.level));
+    if (levelGap === 0) {
+      signals.push({ points: 1, reason: `Matches the level you usually practice (${level})` });
+    } else if (levelGap === 1) {
+      signals.push({ points: 0.5, reason: `Close to the level you usually practice (${profile.level})` });
+    }
+  }
+
+  if (video.durationSeconds && profile.averageDurationSeconds > 0) {
+    const closeness = 1 - Math.abs(video.durationSeconds - profile.averageDurationSeconds) / profile.averageDurationSeconds;
+    if (closeness > 0) {
+      signals.push({
+        points: closeness,
+        reason: `About as long as the videos you practice (${Math.round(profile.averageDurationSeconds / 60)} min)`,
+      });
+    }
+  }
+
+  signals.sort((a, b) => b.points - a.points);
+  return {
+    video,
+    score: signals.reduce((sum, signal) => sum + signal.points, 0),
+    reasons: signals.map(signal => signal.reason),
+    level,
+  };
+};
+
+// Picks from the last run - shown right away while fresh ones load
+export const getCachedRecommendations = async (): Promise<Recommendation[]> => {
+  const cached = await getItem<CachedRecommendations>(RECOMMENDATIONS_KEY);
+  return cached ? cached.recommendations : [];
+};
+
+// Search for videos like the ones the learner practiced most and rank them. Empty without any history.
+export const getRecommendations = async (limit: number = 6, forceRefresh: boolean = false): Promise<Recommendation[]> => {
+  const history = await getHistory();
+  if (history.length === 0) {
+    return [];
+  }
+
+  const historySignature = getHistorySignature(history);
+  const cached = await getItem<CachedRecommendations>(RECOMMENDATIONS_KEY);
+  const cacheAgeHours = cached ? (Date.now() - new Date(cached.generatedAt).getTime()) / (1000 * 60 * 60) : Infinity;
+  if (!forceRefresh && cached && cached.historySignature === historySignature && cacheAgeHours < CACHE_HOURS) {
+    return cached.recommendations;
+  }
+
+  const historyLevels = await getVideoDifficulties(history.map(video => video.videoId));
+  const profile = buildLearnerProfile(
+    history,
+    Object.fromEntries(Object.entries(historyLevels).map(([videoId, profile]) => [videoId, profile.level]))
+  );
+
+  // Candidates come from the favourite channels and topics
+  const queries = [
+    ...topEntries(profile.channels, CHANNEL_QUERIES).map(([channel]) => channel),
+    ...topEntries(profile.topics, TOPIC_QUERIES).map(([topic]) => topic),
+  ];
+  const pages = await Promise.all(
+    queries.map(query => searchVideos(query).catch(error => {
+      console.warn(`⚠️ Recommendation search failed for "${query}":`, error);
+      return { videos: [] as Video[] };
+    }))
+  );
+
+  const candidates = new Map<string, Video>();
+  pages.forEach(page => page.videos.forEach(video => {
+    if (!profile.practicedIds.has(video.id)) {
+      candidates.set(video.id, video);
+    }
+  }));
+
+  const candidateLevels = await getVideoDifficulties(Array.from(candidates.keys()));
+  const recommendations = Array.from(candidates.values())
+    .map(video => scoreCandidate(video, profile, candidateLevels[video.id]?.level))
+    .filter(recommendation => recommendation.reasons.length > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  await setItem<CachedRecommendations>(RECOMMENDATIONS_KEY, {
+    recommendations,
+    historySignature,
+    generatedAt: new Date().toISOString(),
+  });
+  console.log(`✨ ${recommendations.length} recommendations from ${candidates.size} candidates`);
+  return recommendations;
+};
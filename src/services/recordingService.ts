@@ -0,0 +1,242 @@
+import { Audio } from 'expo-av';
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { getItem, setItem } from './storageService';
+import { getBlob, putBlob, deleteBlob } from './blobStorageService';
+import { PronunciationResult } from './pronunciationService';
+import { getSentenceKey } from './transcriptEditService';
+
+export interface RecordingTake {
+  id: string;
+  videoId: string;
+  sentenceStart: number; // The sentence's original start (see getOriginalStart)
+  uri: string; // File URI on native, an IndexedDB reference on web (see getTakeUri)
+  durationMillis: number;
+  createdAt: string;
+  assessment?: PronunciationResult; // Whisper-based score, filled in after upload
+}
+
+// Takes grouped by sentence key (see getSentenceKey), newest first
+export type RecordingTakes = { [sentenceKey: string]: RecordingTake[] };
+
+export const MAX_TAKES_PER_SENTENCE = 3;
+const RECORDINGS_DIR = `${FileSystem.documentDirectory}recordings/`;
+
+// Web recordings are blob URLs that die with the page. The audio goes to IndexedDB and the take
+// keeps a reference, so the take list stays small in localStorage.
+const WEB_TAKE_PREFIX = 'indexeddb:';
+
+const getTakesKey = (videoId: string) => `recordings:${videoId}`;
+const getTakeBlobKey = (takeId: string) => `recording:${takeId}`;
+
+class RecordingService {
+  private recording: Audio.Recording | null = null;
+  private sound: Audio.Sound | null = null;
+  private webTakeUrls = new Map<string, string>(); // Session blob URLs for takes read back from IndexedDB
+
+  async startRecording(): Promise<void> {
+    if (this.recording) {
+      console.log('⚠️ Recording already in progress');
+      return;
+    }
+
+    const permission = await Audio.requestPermissionsAsync();
+    if (!permission.granted) {
+      throw new Error('Microphone permission denied');
+    }
+
+    await this.stopPlayback();
+
+    if (Platform.OS !== 'web') {
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: true,
+        playsInSilentModeIOS: true,
+      });
+    }
+
+    const { recording } = await Audio.Recording.createAsync(
+      Audio.RecordingOptionsPresets.HIGH_QUALITY
+    );
+    this.recording = recording;
+    console.log('🎙️ Recording started');
+  }
+
+  async stopRecording(videoId: string, sentenceStart: number): Promise<RecordingTake> {
+    if (!this.recording) {
+      throw new Error('No recording in progress');
+    }
+
+    const recording = this.recording;
+    this.recording = null;
+
+    const status = await recording.stopAndUnloadAsync();
+    const tempUri = recording.getURI();
+
+    if (Platform.OS !== 'web') {
+      // Switch back to playback mode so audio doesn't go to the earpiece on iOS
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: false,
+        playsInSilentModeIOS: true,
+      });
+    }
+
+    if (!tempUri) {
+      throw new Error('Recording file not found');
+    }
+
+    const takeId = `${Date.now()}`;
+    let uri: string;
+
+    if (Platform.OS === 'web') {
+      const blob = await (await fetch(tempUri)).blob();
+      await putBlob(getTakeBlobKey(takeId), blob);
+      uri = `${WEB_TAKE_PREFIX}${getTakeBlobKey(takeId)}`;
+      this.webTakeUrls.set(takeId, tempUri);
+    } else {
+      // Move out of the cache directory so the take survives cache cleanup
+      const dirInfo = await FileSystem.getInfoAsync(RECORDINGS_DIR);
+      if (!dirInfo.exists) {
+        await FileSystem.makeDirectoryAsync(RECORDINGS_DIR, { intermediates: true });
+      }
+      const extension = tempUri.split('.').pop() || 'm4a';
+      uri = `${RECORDINGS_DIR}${videoId}_${getSentenceKey(sentenceStart)}_${takeId}.${extension}`;
+      await FileSystem.moveAsync({ from: tempUri, to: uri });
+    }
+
+    const take: RecordingTake = {
+      id: takeId,
+      videoId,
+      sentenceStart,
+      uri,
+      durationMillis: status.durationMillis || 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.saveTake(take);
+    console.log(`✅ Recording saved for sentence at ${getSentenceKey(sentenceStart)}s:`, take.durationMillis, 'ms');
+
+    return take;
+  }
+
+  async cancelRecording(): Promise<void> {
+    if (!this.recording) return;
+
+    try {
+      const recording = this.recording;
+      this.recording = null;
+      await recording.stopAndUnloadAsync();
+      console.log('🛑 Recording cancelled');
+    } catch (error) {
+      console.error('Error cancelling recording:', error);
+    }
+  }
+
+  // A URI to play, upload or decode a take with
+  async getTakeUri(take: RecordingTake): Promise<string> {
+    if (!take.uri.startsWith(WEB_TAKE_PREFIX)) {
+      return take.uri;
+    }
+
+    const cachedUrl = this.webTakeUrls.get(take.id);
+    if (cachedUrl) {
+      return cachedUrl;
+    }
+
+    const blob = await getBlob(take.uri.slice(WEB_TAKE_PREFIX.length));
+    if (!blob) {
+      throw new Error('Recording not found');
+    }
+    const url = URL.createObjectURL(blob);
+    this.webTakeUrls.set(take.id, url);
+    return url;
+  }
+
+  async getTakes(videoId: string): Promise<RecordingTakes> {
+    return (await getItem<RecordingTakes>(getTakesKey(videoId))) || {};
+  }
+
+  async updateTake(take: RecordingTake): Promise<void> {
+    const takes = await this.getTakes(take.videoId);
+    const key = getSentenceKey(take.sentenceStart);
+    const sentenceTakes = takes[key] || [];
+    takes[key] = sentenceTakes.map(t => (t.id === take.id ? take : t));
+
+    await setItem(getTakesKey(take.videoId), takes);
+  }
+
+  async playTake(take: RecordingTake, onFinish?: () => void): Promise<void> {
+    await this.stopPlayback();
+
+    const { sound } = await Audio.Sound.createAsync(
+      { uri: await this.getTakeUri(take) },
+      { shouldPlay: true, volume: 1.0 }
+    );
+    this.sound = sound;
+    console.log('▶️ Playing recorded take:', take.id);
+
+    sound.setOnPlaybackStatusUpdate((status) => {
+      if (status.isLoaded && status.didJustFinish) {
+        this.stopPlayback();
+        onFinish?.();
+      }
+    });
+  }
+
+  async stopPlayback(): Promise<void> {
+    if (this.sound) {
+      try {
+        const sound = this.sound;
+        this.sound = null;
+        await sound.stopAsync();
+        await sound.unloadAsync();
+      } catch (error) {
+        console.error('Error stopping recorded take:', error);
+      }
+    }
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  private async saveTake(take: RecordingTake): Promise<void> {
+    const takes = await this.getTakes(take.videoId);
+    const key = getSentenceKey(take.sentenceStart);
+    const sentenceTakes = [take, ...(takes[key] || [])];
+
+    // Keep only the most recent takes per sentence
+    const expiredTakes = sentenceTakes.slice(MAX_TAKES_PER_SENTENCE);
+    takes[key] = sentenceTakes.slice(0, MAX_TAKES_PER_SENTENCE);
+
+    try {
+      await setItem(getTakesKey(take.videoId), takes);
+    } catch (error) {
+      await this.deleteTakeFile(take);
+      throw error;
+    }
+    await Promise.all(expiredTakes.map(expired => this.deleteTakeFile(expired)));
+  }
+
+  private async deleteTakeFile(take: RecordingTake): Promise<void> {
+    if (Platform.OS === 'web') {
+      const url = this.webTakeUrls.get(take.id);
+      if (url) {
+        URL.revokeObjectURL(url);
+        this.webTakeUrls.delete(take.id);
+      }
+      // Takes from before IndexedDB storage are data URLs with nothing else to delete
+      if (take.uri.startsWith(WEB_TAKE_PREFIX)) {
+        await deleteBlob(take.uri.slice(WEB_TAKE_PREFIX.length));
+      }
+      return;
+    }
+
+    try {
+      await FileSystem.deleteAsync(take.uri, { idempotent: true });
+    } catch (error) {
+      console.error('Error deleting recording file:', error);
+    }
+  }
+}
+
+export default new RecordingService();
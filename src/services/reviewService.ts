@@ -0,0 +1,161 @@
+import { getItem, setItem } from './storageService';
+
+// Spaced-repetition review of individual sentences (SM-2 scheduling)
+
+export interface ReviewCard {
+  id: string;
+  videoId: string;
+  videoTitle: string;
+  text: string;
+  start: number;
+  end: number;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: string;
+  createdAt: string;
+  lastReviewedAt?: string;
+  lastQuality?: number;
+}
+
+// SM-2 quality: 0-2 = failed recall, 3 = hard, 4 = good, 5 = easy
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewSentence {
+  videoId: string;
+  videoTitle: string;
+  text: string;
+  start: number;
+  end: number;
+  originalStart?: number; // Keeps the card id stable when the learner retimes the sentence
+}
+
+type ReviewCardMap = { [cardId: string]: ReviewCard };
+
+const REVIEW_CARDS_KEY = 'review:cards';
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // Failed cards come back within the same session
+
+// Cards are keyed by video + sentence start time so they survive transcript reloads
+export const getCardId = (videoId: string, start: number): string => `${videoId}@${start.toFixed(2)}`;
+
+// Convert a 0-100 accuracy score (pronunciation or dictation) to an SM-2 quality
+export const accuracyToQuality = (accuracy: number): ReviewQuality => {
+  if (accuracy >= 95) return 5;
+  if (accuracy >= 85) return 4;
+  if (accuracy >= 70) return 3;
+  if (accuracy >= 50) return 2;
+  if (accuracy >= 25) return 1;
+  return 0;
+};
+
+// Apply one SM-2 review to a card
+export const scheduleCard = (card: ReviewCard, quality: ReviewQuality, now: Date = new Date()): ReviewCard => {
+  let { repetitions, intervalDays } = card;
+  let dueTime: number;
+
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 0;
+    dueTime = now.getTime() + RELEARN_DELAY_MS;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(intervalDays * card.easeFactor);
+    }
+    dueTime = now.getTime() + intervalDays * DAY_MS;
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    ...card,
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(dueTime).toISOString(),
+    lastReviewedAt: now.toISOString(),
+    lastQuality: quality,
+  };
+};
+
+const createCard = (sentence: ReviewSentence, now: Date): ReviewCard => ({
+  id: getCardId(sentence.videoId, sentence.originalStart ?? sentence.start),
+  videoId: sentence.videoId,
+  videoTitle: sentence.videoTitle,
+  text: sentence.text,
+  start: sentence.start,
+  end: sentence.end,
+  easeFactor: DEFAULT_EASE_FACTOR,
+  intervalDays: 0,
+  repetitions: 0,
+  // Sentences that were only listened to come up for review the next day
+  dueAt: new Date(now.getTime() + DAY_MS).toISOString(),
+  createdAt: now.toISOString(),
+});
+
+const loadCards = async (): Promise<ReviewCardMap> => {
+  return (await getItem<ReviewCardMap>(REVIEW_CARDS_KEY)) || {};
+};
+
+// Get all review cards
+export const getReviewCards = async (): Promise<ReviewCard[]> => {
+  return Object.values(await loadCards());
+};
+
+// Get cards that are due, oldest first (optionally limited to some videos)
+export const getDueCards = async (videoIds?: string[], now: Date = new Date()): Promise<ReviewCard[]> => {
+  const cards = await getReviewCards();
+  return cards
+    .filter(card => new Date(card.dueAt).getTime() <= now.getTime())
+    .filter(card => !videoIds || videoIds.includes(card.videoId))
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+};
+
+// Feed a practiced sentence into the queue.
+// Without a quality the sentence is only added (if new); with one it is also scheduled.
+export const recordSentencePractice = async (
+  sentence: ReviewSentence,
+  quality?: ReviewQuality
+): Promise<ReviewCard> => {
+  const now = new Date();
+  const cards = await loadCards();
+  const cardId = getCardId(sentence.videoId, sentence.originalStart ?? sentence.start);
+
+  let card = cards[cardId]
+    ? { ...cards[cardId], text: sentence.text, start: sentence.start, end: sentence.end, videoTitle: sentence.videoTitle }
+    : createCard(sentence, now);
+
+  if (quality !== undefined) {
+    card = scheduleCard(card, quality, now);
+  }
+
+  cards[cardId] = card;
+  await setItem(REVIEW_CARDS_KEY, cards);
+  return card;
+};
+
+// Self-grade a card from the review queue
+export const gradeReviewCard = async (cardId: string, quality: ReviewQuality): Promise<ReviewCard | null> => {
+  const cards = await loadCards();
+  const card = cards[cardId];
+  if (!card) {
+    return null;
+  }
+
+  const updated = scheduleCard(card, quality);
+  cards[cardId] = updated;
+  await setItem(REVIEW_CARDS_KEY, cards);
+
+  console.log(`🧠 Reviewed "${card.text.substring(0, 30)}..." - next review in ${updated.intervalDays} days`);
+  return updated;
+};
@@ -0,0 +1,83 @@
+import { getItem, setItem, removeItem } from './storageService';
+import { hashString } from './transcriptCacheService';
+import type { SearchFilters, SearchPage } from './youtubeService';
+
+export interface RecentSearch {
+  id: string;
+  query: string;
+  filters: SearchFilters;
+  searchedAt: string;
+}
+
+// First page of results for a recent search, shown instantly while a fresh search runs
+export interface CachedSearchResults extends SearchPage {
+  cachedAt: string;
+}
+
+// Curated queries for learners who don't know what to search for yet
+export interface TopicSuggestion {
+  label: string;
+  icon: string;
+  query: string;
+}
+
+export const TOPIC_SUGGESTIONS: TopicSuggestion[] = [
+  { label: 'TED Talks', icon: '🎤', query: 'TED talk' },
+  { label: 'Interviews', icon: '🎙️', query: 'celebrity interview english' },
+  { label: 'News', icon: '📰', query: 'english news report' },
+  { label: 'Vlogs', icon: '📹', query: 'daily vlog english' },
+  { label: 'Podcasts', icon: '🎧', query: 'english podcast clip' },
+  { label: 'Movie Scenes', icon: '🎬', query: 'movie scene dialogue' },
+];
+
+const RECENT_SEARCHES_KEY = 'search:recent';
+const MAX_RECENT_SEARCHES = 15;
+
+const getResultsKey = (id: string) => `search:results:${id}`;
+
+// The same query with the same filters is one entry
+const getSearchId = (query: string, filters: SearchFilters) =>
+  hashString(`${query.trim().toLowerCase()}|${JSON.stringify(filters)}`);
+
+// Newest first
+export const getRecentSearches = async (): Promise<RecentSearch[]> => {
+  return (await getItem<RecentSearch[]>(RECENT_SEARCHES_KEY)) || [];
+};
+
+// Record a search and its first page of results, moving it to the top of the list
+export const saveRecentSearch = async (
+  query: string,
+  filters: SearchFilters,
+  page: SearchPage
+): Promise<RecentSearch> => {
+  const search: RecentSearch = {
+    id: getSearchId(query, filters),
+    query: query.trim(),
+    filters,
+    searchedAt: new Date().toISOString(),
+  };
+
+  const searches = (await getRecentSearches()).filter(s => s.id !== search.id);
+  const kept = [search, ...searches].slice(0, MAX_RECENT_SEARCHES);
+  await Promise.all(
+    searches.slice(MAX_RECENT_SEARCHES - 1).map(dropped => removeItem(getResultsKey(dropped.id)))
+  );
+
+  await setItem(RECENT_SEARCHES_KEY, kept);
+  await setItem<CachedSearchResults>(getResultsKey(search.id), { ...page, cachedAt: search.searchedAt });
+  return search;
+};
+
+export const getCachedSearchResults = async (id: string): Promise<CachedSearchResults | null> => {
+  return getItem<CachedSearchResults>(getResultsKey(id));
+};
+
+export const removeRecentSearch = async (id: string): Promise<void> => {
+  await removeItem(getResultsKey(id));
+  await setItem(RECENT_SEARCHES_KEY, (await getRecentSearches()).filter(s => s.id !== id));
+};
+
+export const clearRecentSearches = async (): Promise<void> => {
+  await Promise.all((await getRecentSearches()).map(search => removeItem(getResultsKey(search.id))));
+  await removeItem(RECENT_SEARCHES_KEY);
+};
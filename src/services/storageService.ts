@@ -0,0 +1,70 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+
+// Local key/value storage for JSON data.
+// Web uses localStorage, native platforms keep one JSON file per key in the document directory.
+const WEB_KEY_PREFIX = 'speakflow:';
+const STORAGE_DIR = `${FileSystem.documentDirectory}storage/`;
+
+const getFilePath = (key: string): string => `${STORAGE_DIR}${encodeURIComponent(key)}.json`;
+
+const ensureStorageDir = async (): Promise<void> => {
+  const dirInfo = await FileSystem.getInfoAsync(STORAGE_DIR);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(STORAGE_DIR, { intermediates: true });
+  }
+};
+
+// Read a stored value (null if missing or unreadable)
+export const getItem = async <T>(key: string): Promise<T | null> => {
+  try {
+    if (Platform.OS === 'web') {
+      const raw = window.localStorage.getItem(WEB_KEY_PREFIX + key);
+      return raw ? (JSON.parse(raw) as T) : null;
+    }
+
+    const filePath = getFilePath(key);
+    const fileInfo = await FileSystem.getInfoAsync(filePath);
+    if (!fileInfo.exists) {
+      return null;
+    }
+
+    const raw = await FileSystem.readAsStringAsync(filePath);
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`❌ Storage read failed for "${key}":`, error);
+    return null;
+  }
+};
+
+// Write a value (replaces any previous value)
+export const setItem = async <T>(key: string, value: T): Promise<void> => {
+  try {
+    const raw = JSON.stringify(value);
+
+    if (Platform.OS === 'web') {
+      window.localStorage.setItem(WEB_KEY_PREFIX + key, raw);
+      return;
+    }
+
+    await ensureStorageDir();
+    await FileSystem.writeAsStringAsync(getFilePath(key), raw);
+  } catch (error) {
+    console.error(`❌ Storage write failed for "${key}":`, error);
+    throw new Error('Failed to save data: ' + (error instanceof Error ? error.message : 'Unknown error'));
+  }
+};
+
+// Delete a stored value
+export const removeItem = async (key: string): Promise<void> => {
+  try {
+    if (Platform.OS === 'web') {
+      window.localStorage.removeItem(WEB_KEY_PREFIX + key);
+      return;
+    }
+
+    await FileSystem.deleteAsync(getFilePath(key), { idempotent: true });
+  } catch (error) {
+    console.error(`❌ Storage delete failed for "${key}":`, error);
+  }
+};
@@ -0,0 +1,238 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import TTSService, { TTSOptions } from './ttsService';
+import { getItem, setItem, removeItem } from './storageService';
+import { hashString } from './transcriptCacheService';
+import { parseMp3, concatMp3, Mp3Clip } from './mp3Service';
+import type { ProcessedSentence } from './whisperService';
+
+export type TTSVoice = NonNullable<TTSOptions['voice']>;
+
+// A learner's own text (presentation, interview answers) practiced with TTS audio only
+export interface TextScript {
+  id: string;
+  title: string;
+  text: string;
+  voice: TTSVoice;
+  sentences: string[];
+  createdAt: string;
+  timeline?: ProcessedSentence[]; // Sentence timings in the generated track, once built
+}
+
+// Generated audio for a script: one track with every sentence back to back
+export interface TextPracticeTrack {
+  audioUrl: string;
+  sentences: ProcessedSentence[];
+}
+
+export type TextPracticeProgress = (message: string) => void;
+
+export const MAX_SCRIPT_SENTENCES = 80;
+
+const SCRIPT_IDS_KEY = 'text-scripts';
+const SCRIPT_ID_PREFIX = 'text-';
+const CLIPS_DIR = `${FileSystem.cacheDirectory}tts-clips/`;
+const TRACKS_DIR = `${FileSystem.documentDirectory}text-practice/`;
+
+const getScriptKey = (id: string) => `text-script:${id}`;
+const getTrackUri = (id: string) => `${TRACKS_DIR}${id}.mp3`;
+
+// Web can't write files - clips live in memory for the session
+const webClips = new Map<string, Uint8Array>();
+
+// Both the transcript and the audio of a script come from one build
+const pendingBuilds = new Map<string, Promise<TextPracticeTrack>>();
+
+// Words ending in a period that don't end a sentence
+const ABBREVIATIONS = ['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'approx', 'no', 'fig'];
+
+export const isTextScriptId = (id: string): boolean => id.startsWith(SCRIPT_ID_PREFIX);
+
+// Split pasted text into sentences. Line breaks always end a sentence (bullet points, headings).
+export const splitIntoSentences = (text: string): string[] => {
+  const sentences: string[] = [];
+
+  text
+    .split(/\n+/)
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+    .filter(line => line.length > 0)
+    .forEach(line => {
+      // Pieces end at punctuation followed by a space, so "3.5" and "U.S.A" stay whole
+      const pieces = line.match(/.*?[.!?]+["'”’)]*(?=\s|$)|.+$/g) || [];
+      let current = '';
+      pieces.forEach(piece => {
+        current += piece;
+        const lastWord = current.trim().split(/\s+/).pop()!.toLowerCase().replace(/["'”’)]+$/, '');
+        const isAbbreviation = lastWord.endsWith('.') &&
+          (ABBREVIATIONS.includes(lastWord.slice(0, -1)) || /^[a-z]\.$/.test(lastWord));
+        if (!isAbbreviation) {
+          sentences.push(current.trim());
+          current = '';
+        }
+      });
+      if (current.trim()) {
+        sentences.push(current.trim());
+      }
+    });
+
+  return sentences;
+};
+
+const getScriptIds = async (): Promise<string[]> => {
+  return (await getItem<string[]>(SCRIPT_IDS_KEY)) || [];
+};
+
+export const getTextScript = async (id: string): Promise<TextScript | null> => {
+  return getItem<TextScript>(getScriptKey(id));
+};
+
+// Newest first
+export const getTextScripts = async (): Promise<TextScript[]> => {
+  const scripts = await Promise.all((await getScriptIds()).map(getTextScript));
+  return scripts.filter((script): script is TextScript => script !== null);
+};
+
+export const createTextScript = async (title: string, text: string, voice: TTSVoice): Promise<TextScript> => {
+  const sentences = splitIntoSentences(text);
+  if (sentences.length === 0) {
+    throw new Error('Please enter some text to practice');
+  }
+  if (sentences.length > MAX_SCRIPT_SENTENCES) {
+    throw new Error(`Scripts can have up to ${MAX_SCRIPT_SENTENCES} sentences (this one has ${sentences.length})`);
+  }
+
+  const script: TextScript = {
+    id: `${SCRIPT_ID_PREFIX}${Date.now()}`,
+    title: title.trim() || sentences[0].slice(0, 40),
+    text,
+    voice,
+    sentences,
+    createdAt: new Date().toISOString(),
+  };
+
+  await setItem(getScriptKey(script.id), script);
+  await setItem(SCRIPT_IDS_KEY, [script.id, ...(await getScriptIds())]);
+  return script;
+};
+
+export const deleteTextScript = async (id: string): Promise<void> => {
+  if (Platform.OS !== 'web') {
+    await FileSystem.deleteAsync(getTrackUri(id), { idempotent: true });
+  }
+  pendingBuilds.delete(id);
+  await removeItem(getScriptKey(id));
+  await setItem(SCRIPT_IDS_KEY, (await getScriptIds()).filter(scriptId => scriptId !== id));
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so long tracks don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// One sentence of OpenAI TTS audio, generated once per voice + text
+const getSentenceClip = async (text: string, voice: TTSVoice): Promise<Uint8Array> => {
+  const key = hashString(`${voice}:${text}`);
+
+  if (Platform.OS === 'web') {
+    const cached = webClips.get(key);
+    if (cached) return cached;
+  } else {
+    const clipUri = `${CLIPS_DIR}${key}.mp3`;
+    const clipInfo = await FileSystem.getInfoAsync(clipUri);
+    if (clipInfo.exists) {
+      return base64ToBytes(await FileSystem.readAsStringAsync(clipUri, { encoding: FileSystem.EncodingType.Base64 }));
+    }
+  }
+
+  const clip = new Uint8Array(await TTSService.generateWithOpenAI(text, { voice }));
+
+  if (Platform.OS === 'web') {
+    webClips.set(key, clip);
+  } else {
+    await FileSystem.makeDirectoryAsync(CLIPS_DIR, { intermediates: true });
+    await FileSystem.writeAsStringAsync(`${CLIPS_DIR}${key}.mp3`, bytesToBase64(clip), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+
+  return clip;
+};
+
+const buildTrack = async (script: TextScript, onProgress?: TextPracticeProgress): Promise<TextPracticeTrack> => {
+  // A track built in an earlier session is still on disk (native only)
+  if (Platform.OS !== 'web' && script.timeline) {
+    const trackInfo = await FileSystem.getInfoAsync(getTrackUri(script.id));
+    if (trackInfo.exists) {
+      return { audioUrl: getTrackUri(script.id), sentences: script.timeline };
+    }
+  }
+
+  const clips: Mp3Clip[] = [];
+  for (let i = 0; i < script.sentences.length; i++) {
+    onProgress?.(`Generating voice ${i + 1}/${script.sentences.length}...`);
+    clips.push(parseMp3(await getSentenceClip(script.sentences[i], script.voice)));
+  }
+
+  let cursor = 0;
+  const timeline: ProcessedSentence[] = script.sentences.map((text, i) => {
+    const start = cursor;
+    cursor += clips[i].duration;
+    return { text, start, end: cursor, duration: clips[i].duration };
+  });
+
+  const track = concatMp3(clips);
+  let audioUrl: string;
+
+  if (Platform.OS === 'web') {
+    audioUrl = URL.createObjectURL(new Blob([track], { type: 'audio/mpeg' }));
+  } else {
+    await FileSystem.makeDirectoryAsync(TRACKS_DIR, { intermediates: true });
+    audioUrl = getTrackUri(script.id);
+    await FileSystem.writeAsStringAsync(audioUrl, bytesToBase64(track), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+
+  // Clip lengths can differ if a clip had to be regenerated, so keep the latest timings
+  await setItem(getScriptKey(script.id), { ...script, timeline });
+  console.log(`✅ Text practice track built: ${timeline.length} sentences, ${cursor.toFixed(1)}s`);
+
+  return { audioUrl, sentences: timeline };
+};
+
+// Generate (or reuse) the TTS track for a script. Concurrent callers share one build.
+export const prepareTextPractice = async (
+  id: string,
+  onProgress?: TextPracticeProgress
+): Promise<TextPracticeTrack> => {
+  const pending = pendingBuilds.get(id);
+  if (pending) {
+    return pending;
+  }
+
+  const build = (async () => {
+    const script = await getTextScript(id);
+    if (!script) {
+      throw new Error('Script not found');
+    }
+    return buildTrack(script, onProgress);
+  })();
+
+  pendingBuilds.set(id, build);
+  // Failed builds can be retried
+  build.catch(() => pendingBuilds.delete(id));
+  return build;
+};
@@ -0,0 +1,70 @@
+import { getItem, setItem, removeItem } from './storageService';
+import type { ProcessedSentence, TranscriptSource } from './whisperService';
+
+// Persistent on-device transcript store, so transcripts show instantly on every launch
+export interface CachedTranscript {
+  videoId: string;
+  source: TranscriptSource;
+  sentences: ProcessedSentence[];
+  fetchedAt: string;
+  contentHash: string;
+}
+
+const INDEX_KEY = 'transcripts:index';
+
+const getTranscriptKey = (videoId: string) => `transcript:${videoId}`;
+
+// FNV-1a string hash - short, stable cache keys
+export const hashString = (content: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+// Hash of the sentence text and timings - enough to tell whether the server copy changed
+export const hashSentences = (sentences: ProcessedSentence[]): string => {
+  return hashString(JSON.stringify(sentences.map(s => [s.text, s.start, s.end])));
+};
+
+export const getCachedTranscript = async (videoId: string): Promise<CachedTranscript | null> => {
+  return getItem<CachedTranscript>(getTranscriptKey(videoId));
+};
+
+export const saveCachedTranscript = async (
+  videoId: string,
+  source: TranscriptSource,
+  sentences: ProcessedSentence[]
+): Promise<CachedTranscript> => {
+  const entry: CachedTranscript = {
+    videoId,
+    source,
+    sentences,
+    fetchedAt: new Date().toISOString(),
+    contentHash: hashSentences(sentences),
+  };
+
+  await setItem(getTranscriptKey(videoId), entry);
+
+  const index = (await getItem<string[]>(INDEX_KEY)) || [];
+  if (!index.includes(videoId)) {
+    await setItem(INDEX_KEY, [...index, videoId]);
+  }
+
+  return entry;
+};
+
+export const removeCachedTranscript = async (videoId: string): Promise<void> => {
+  await removeItem(getTranscriptKey(videoId));
+  const index = (await getItem<string[]>(INDEX_KEY)) || [];
+  await setItem(INDEX_KEY, index.filter(id => id !== videoId));
+};
+
+export const clearTranscriptCache = async (): Promise<void> => {
+  const index = (await getItem<string[]>(INDEX_KEY)) || [];
+  await Promise.all(index.map(videoId => removeItem(getTranscriptKey(videoId))));
+  await removeItem(INDEX_KEY);
+  console.log(`🧹 Cleared ${index.length} cached transcripts`);
+};
@@ -0,0 +1,140 @@
+import { getItem, setItem, removeItem } from './storageService';
+import { getWordTimings, ProcessedSentence } from './whisperService';
+
+// Learner edits to sentence boundaries, stored per video as an overlay on the server transcript.
+// Sentences are identified by their start time, so edits survive reloads of the same transcript.
+export type SentenceEdit =
+  | { type: 'split'; sentenceStart: number; wordIndex: number } // Split before this word
+  | { type: 'merge'; sentenceStart: number } // Merge with the following sentence
+  | { type: 'retime'; sentenceStart: number; start: number; end: number };
+
+const getEditsKey = (videoId: string) => `transcript-edits:${videoId}`;
+
+// Storage key for per-sentence data (recordings, dictation stats) that must survive splits and merges
+export const getSentenceKey = (sentenceStart: number) => sentenceStart.toFixed(2);
+
+// The start a sentence's data is keyed by - retiming moves the start but keeps the sentence
+export const getOriginalStart = (sentence: { start: number; originalStart?: number }) =>
+  sentence.originalStart ?? sentence.start;
+
+const MIN_SENTENCE_SECONDS = 0.2;
+
+const roundTime = (time: number) => Math.round(time * 100) / 100;
+
+const findSentenceIndex = (sentences: ProcessedSentence[], start: number) =>
+  sentences.findIndex(sentence => Math.abs(sentence.start - start) < 0.005);
+
+const splitSentence = (sentence: ProcessedSentence, wordIndex: number): ProcessedSentence[] | null => {
+  const timings = getWordTimings(sentence);
+  if (wordIndex <= 0 || wordIndex >= timings.length) {
+    return null;
+  }
+
+  const splitTime = roundTime(timings[wordIndex].start);
+  const firstWords = timings.slice(0, wordIndex);
+  const secondWords = timings.slice(wordIndex);
+
+  // Without Whisper words the timings come from the text itself, so text is preserved exactly
+  const tokens = sentence.text.split(/\s+/).filter(token => token.length > 0);
+  const hasWordTimings = !!sentence.words?.length;
+  const firstText = hasWordTimings ? firstWords.map(w => w.word).join(' ') : tokens.slice(0, wordIndex).join(' ');
+  const secondText = hasWordTimings ? secondWords.map(w => w.word).join(' ') : tokens.slice(wordIndex).join(' ');
+
+  return [
+    {
+      text: firstText,
+      start: sentence.start,
+      end: splitTime,
+      duration: splitTime - sentence.start,
+      words: hasWordTimings ? firstWords : undefined,
+      originalStart: sentence.originalStart,
+    },
+    {
+      text: secondText,
+      start: splitTime,
+      end: sentence.end,
+      duration: sentence.end - splitTime,
+      words: hasWordTimings ? secondWords : undefined,
+    },
+  ];
+};
+
+const mergeSentences = (first: ProcessedSentence, second: ProcessedSentence): ProcessedSentence => ({
+  text: `${first.text} ${second.text}`,
+  start: first.start,
+  end: second.end,
+  duration: second.end - first.start,
+  words: first.words && second.words ? [...first.words, ...second.words] : undefined,
+  originalStart: first.originalStart,
+});
+
+// Apply a single edit. Edits that no longer match the transcript are skipped.
+export const applyTranscriptEdit = (sentences: ProcessedSentence[], edit: SentenceEdit): ProcessedSentence[] => {
+  const index = findSentenceIndex(sentences, edit.sentenceStart);
+  if (index < 0) {
+    console.warn('⚠️ Skipping transcript edit for missing sentence at', edit.sentenceStart);
+    return sentences;
+  }
+
+  const sentence = sentences[index];
+  const result = [...sentences];
+
+  switch (edit.type) {
+    case 'split': {
+      const parts = splitSentence(sentence, edit.wordIndex);
+      if (parts) {
+        result.splice(index, 1, ...parts);
+      }
+      break;
+    }
+    case 'merge': {
+      if (index < sentences.length - 1) {
+        result.splice(index, 2, mergeSentences(sentence, sentences[index + 1]));
+      }
+      break;
+    }
+    case 'retime': {
+      const start = Math.max(0, edit.start);
+      const end = Math.max(start + MIN_SENTENCE_SECONDS, edit.end);
+      result[index] = { ...sentence, start, end, duration: end - start, originalStart: getOriginalStart(sentence) };
+      break;
+    }
+  }
+
+  return result;
+};
+
+export const applyTranscriptEdits = (sentences: ProcessedSentence[], edits: SentenceEdit[]): ProcessedSentence[] => {
+  return edits.reduce(applyTranscriptEdit, sentences);
+};
+
+export const getTranscriptEdits = async (videoId: string): Promise<SentenceEdit[]> => {
+  return (await getItem<SentenceEdit[]>(getEditsKey(videoId))) || [];
+};
+
+// Save an edit and return the full edit list
+export const addTranscriptEdit = async (videoId: string, edit: SentenceEdit): Promise<SentenceEdit[]> => {
+  const edits = await getTranscriptEdits(videoId);
+  const last = edits[edits.length - 1];
+
+  // Collapse repeated nudges of the same sentence into one retime
+  if (edit.type === 'retime' && last?.type === 'retime' && Math.abs(last.start - edit.sentenceStart) < 0.005) {
+    edits[edits.length - 1] = { ...edit, sentenceStart: last.sentenceStart };
+  } else {
+    edits.push(edit);
+  }
+
+  await setItem(getEditsKey(videoId), edits);
+  console.log(`✏️ Transcript edit saved (${edit.type}), ${edits.length} edits for ${videoId}`);
+  return edits;
+};
+
+export const undoTranscriptEdit = async (videoId: string): Promise<SentenceEdit[]> => {
+  const edits = (await getTranscriptEdits(videoId)).slice(0, -1);
+  await setItem(getEditsKey(videoId), edits);
+  return edits;
+};
+
+export const clearTranscriptEdits = async (videoId: string): Promise<void> => {
+  await removeItem(getEditsKey(videoId));
+};
@@ -0,0 +1,217 @@
+import type { PracticeSentence } from './youtubeService';
+import type { SentenceTranslations } from './translationService';
+
+// Pure transcript serializers - no file system or network access here
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'anki-csv' | 'anki-tsv';
+
+export interface TranscriptFormatInfo {
+  format: TranscriptFormat;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const TRANSCRIPT_FORMATS: TranscriptFormatInfo[] = [
+  { format: 'srt', label: 'SRT', description: 'Subtitles for video players', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT', description: 'Subtitles for the web', extension: 'vtt', mimeType: 'text/vtt' },
+  { format: 'txt', label: 'Text', description: 'Plain text with timestamps', extension: 'txt', mimeType: 'text/plain' },
+  { format: 'anki-csv', label: 'Anki CSV', description: 'Flashcards: sentence / translation', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'anki-tsv', label: 'Anki TSV', description: 'Flashcards, tab separated', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+];
+
+const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+
+const splitSeconds = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    hours: Math.floor(totalMs / 3600000),
+    minutes: Math.floor((totalMs % 3600000) / 60000),
+    seconds: Math.floor((totalMs % 60000) / 1000),
+    milliseconds: totalMs % 1000,
+  };
+};
+
+// 00:01:02,500
+export const formatSrtTimestamp = (seconds: number): string => {
+  const t = splitSeconds(seconds);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)},${pad(t.milliseconds, 3)}`;
+};
+
+// 00:01:02.500
+export const formatVttTimestamp = (seconds: number): string => {
+  const t = splitSeconds(seconds);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)}.${pad(t.milliseconds, 3)}`;
+};
+
+// 1:02 (or 1:01:02 past an hour)
+const formatClockTime = (seconds: number): string => {
+  const t = splitSeconds(seconds);
+  return t.hours > 0
+    ? `${t.hours}:${pad(t.minutes)}:${pad(t.seconds)}`
+    : `${t.minutes}:${pad(t.seconds)}`;
+};
+
+// Subtitle cue text: the sentence, then its translation on the next line
+const getCueText = (sentence: PracticeSentence, translations: SentenceTranslations) => {
+  const translation = translations[sentence.text];
+  return translation ? `${sentence.text}\n${translation}` : sentence.text;
+};
+
+export const toSrt = (sentences: PracticeSentence[], translations: SentenceTranslations = {}): string => {
+  return sentences
+    .map((sentence, index) => [
+      `${index + 1}`,
+      `${formatSrtTimestamp(sentence.start)} --> ${formatSrtTimestamp(sentence.end)}`,
+      getCueText(sentence, translations),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+};
+
+export const toVtt = (sentences: PracticeSentence[], translations: SentenceTranslations = {}): string => {
+  const cues = sentences.map(sentence => [
+    `${formatVttTimestamp(sentence.start)} --> ${formatVttTimestamp(sentence.end)}`,
+    getCueText(sentence, translations),
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+export const toPlainText = (
+  sentences: PracticeSentence[],
+  translations: SentenceTranslations = {},
+  title?: string
+): string => {
+  const lines = sentences.map(sentence => {
+    const translation = translations[sentence.text];
+    const line = `[${formatClockTime(sentence.start)}] ${sentence.text}`;
+    return translation ? `${line}\n    ${translation}` : line;
+  });
+  return (title ? [title, '', ...lines] : lines).join('\n') + '\n';
+};
+
+// RFC 4180 quoting for CSV; tabs and newlines can't be escaped in TSV so they become spaces
+const escapeField = (value: string, separator: ',' | '\t') => {
+  if (separator === '\t') {
+    return value.replace(/[\t\r\n]+/g, ' ');
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Anki notes: Front = sentence, Back = translation, plus where the sentence came from.
+// The "#" header lines let Anki pick the separator and columns automatically.
+const toAnki = (
+  sentences: PracticeSentence[],
+  translations: SentenceTranslations,
+  separator: ',' | '\t',
+  title?: string
+): string => {
+  const header = [
+    `#separator:${separator === ',' ? 'Comma' : 'Tab'}`,
+    '#html:false',
+    '#columns:Front;Back;Source',
+  ];
+  const rows = sentences.map(sentence => [
+    sentence.text,
+    translations[sentence.text] || '',
+    title ? `${title} @ ${formatClockTime(sentence.start)}` : formatClockTime(sentence.start),
+  ].map(field => escapeField(field, separator)).join(separator));
+  return [...header, ...rows].join('\n') + '\n';
+};
+
+export const toAnkiCsv = (sentences: PracticeSentence[], translations: SentenceTranslations = {}, title?: string) =>
+  toAnki(sentences, translations, ',', title);
+
+export const toAnkiTsv = (sentences: PracticeSentence[], translations: SentenceTranslations = {}, title?: string) =>
+  toAnki(sentences, translations, '\t', title);
+
+export const serializeTranscript = (
+  format: TranscriptFormat,
+  sentences: PracticeSentence[],
+  translations: SentenceTranslations = {},
+  title?: string
+): string => {
+  switch (format) {
+    case 'srt':
+      return toSrt(sentences, translations);
+    case 'vtt':
+      return toVtt(sentences, translations);
+    case 'txt':
+      return toPlainText(sentences, translations, title);
+    case 'anki-csv':
+      return toAnkiCsv(sentences, translations, title);
+    case 'anki-tsv':
+      return toAnkiTsv(sentences, translations, title);
+  }
+};
+
+// "My Video: Part 1" -> "My-Video-Part-1.srt" (keeps non-Latin titles, drops characters file systems reject)
+export const getExportFileName = (title: string, format: TranscriptFormat): string => {
+  const info = TRANSCRIPT_FORMATS.find(f => f.format === format)!;
+  const baseName = title
+    .replace(/[\\/:*?"<>|#%\s]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'transcript';
+  return `${baseName}.${info.extension}`;
+};
+
+// A timed cue read from an .srt/.vtt file, in the shape processYouTubeSubtitles expects
+export interface SubtitleCue {
+  text: string;
+  start: number;
+  dur: number;
+}
+
+// "01:02:03,500", "01:02:03.500" or "02:03.500" -> seconds
+export const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/);
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours || '0', 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(fraction.padEnd(3, '0'), 10) / 1000
+  );
+};
+
+// Parse SRT or WebVTT content into cues. Cue numbers, VTT headers/NOTE/STYLE blocks,
+// cue settings and inline tags (<i>, <c.color>, {\an8}) are dropped.
+export const parseSubtitles = (content: string): SubtitleCue[] => {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const cues: SubtitleCue[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(line => line.trim().length > 0);
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex < 0) {
+      return;
+    }
+
+    const [startPart, endPart] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startPart);
+    const end = parseTimestamp(endPart.trim().split(/\s+/)[0]);
+    if (start === null || end === null || end <= start) {
+      return;
+    }
+
+    const text = lines
+      .slice(timingIndex + 1)
+      .join(' ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\{\\[^}]*\}/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (text) {
+      cues.push({ text, start, dur: end - start });
+    }
+  });
+
+  return cues.sort((a, b) => a.start - b.start);
+};
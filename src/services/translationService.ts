@@ -0,0 +1,183 @@
+import { API_CONFIG } from '../config/api';
+import { authFetch } from './apiClient';
+import { getItem, setItem, removeItem } from './storageService';
+
+export interface TranslationLanguage {
+  code: string;
+  name: string;
+  nativeName: string;
+}
+
+// Translations keyed by the English sentence text, so they survive sentence boundary edits
+export type SentenceTranslations = { [sentenceText: string]: string };
+
+export type TranslationProgress = (message: string) => void;
+
+// Called with everything translated so far, so views can fill in progressively
+export type PartialTranslations = (translations: SentenceTranslations) => void;
+
+export const TRANSLATION_LANGUAGES: TranslationLanguage[] = [
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย' },
+];
+
+export const DEFAULT_TARGET_LANGUAGE = 'ko';
+
+const TARGET_LANGUAGE_KEY = 'settings:translation-language';
+
+// Sentences per batch request. Long transcripts are split rather than sent in one request so the
+// bilingual view can show early results sooner; a failed chunk is skipped and retried next time.
+const BATCH_SIZE = 20;
+
+const getTranslationsKey = (videoId: string, language: string) => `translations:${videoId}:${language}`;
+
+export const getLanguageName = (code: string): string => {
+  return TRANSLATION_LANGUAGES.find(language => language.code === code)?.name || code;
+};
+
+// The language sentences are translated into (user setting)
+export const getTargetLanguage = async (): Promise<string> => {
+  return (await getItem<string>(TARGET_LANGUAGE_KEY)) || DEFAULT_TARGET_LANGUAGE;
+};
+
+export const setTargetLanguage = async (code: string): Promise<void> => {
+  await setItem(TARGET_LANGUAGE_KEY, code);
+};
+
+export const getCachedTranslations = async (videoId: string, language: string): Promise<SentenceTranslations> => {
+  return (await getItem<SentenceTranslations>(getTranslationsKey(videoId, language))) || {};
+};
+
+// Translate a single text
+export const translateText = async (text: string, language: string): Promise<string> => {
+  const response = await authFetch(`${API_CONFIG.BASE_URL}/translate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      text,
+      targetLanguage: language
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (!data.success || !data.translatedText) {
+    throw new Error(data.error || 'Translation failed');
+  }
+
+  return data.translatedText;
+};
+
+// Translate many texts in one request. Resolves to null if the server has no batch endpoint.
+const translateBatch = async (texts: string[], language: string): Promise<string[] | null> => {
+  const response = await authFetch(`${API_CONFIG.BASE_URL}/translate/batch`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      texts,
+      targetLanguage: language
+    }),
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (!data.success || !Array.isArray(data.translations) || data.translations.length !== texts.length) {
+    throw new Error(data.error || 'Batch translation failed');
+  }
+
+  return data.translations;
+};
+
+// Translate a whole transcript, reusing the video's saved translations.
+// Only missing sentences are sent, in batches, in the order given.
+export const translateTranscript = async (
+  videoId: string,
+  texts: string[],
+  language: string,
+  onProgress?: TranslationProgress,
+  onPartial?: PartialTranslations
+): Promise<SentenceTranslations> => {
+  const cached = await getCachedTranslations(videoId, language);
+  const missing = Array.from(new Set(texts)).filter(text => text.trim() && !cached[text]);
+
+  if (missing.length === 0) {
+    return cached;
+  }
+
+  console.log(`🌐 Translating ${missing.length} sentences into ${getLanguageName(language)}...`);
+
+  const translations: SentenceTranslations = { ...cached };
+  const key = getTranslationsKey(videoId, language);
+  let isBatchSupported = true;
+
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const chunk = missing.slice(i, i + BATCH_SIZE);
+    onProgress?.(`Translating ${i + 1}-${i + chunk.length}/${missing.length}...`);
+
+    let batch: string[] | null = null;
+    if (isBatchSupported) {
+      try {
+        batch = await translateBatch(chunk, language);
+      } catch (error) {
+        // Untranslated sentences stay missing from the cache, so the next run picks them up again
+        console.warn(`⚠️ Translation failed for sentences ${i + 1}-${i + chunk.length}, continuing without them:`, error);
+        continue;
+      }
+    }
+
+    if (batch) {
+      chunk.forEach((text, j) => {
+        if (batch[j]) {
+          translations[text] = batch[j];
+        }
+      });
+    } else {
+      // Older servers only translate one text per request - missing translations don't fail the rest
+      if (isBatchSupported) {
+        console.log('⚠️ Batch translation unavailable, translating sentence by sentence');
+        isBatchSupported = false;
+      }
+      for (const text of chunk) {
+        try {
+          translations[text] = await translateText(text, language);
+          onPartial?.({ ...translations });
+        } catch (error) {
+          console.warn('⚠️ Translation failed for a sentence, continuing without it');
+        }
+      }
+    }
+
+    await setItem(key, translations);
+    onPartial?.({ ...translations });
+  }
+
+  console.log(`✅ Translations saved: ${Object.keys(translations).length} sentences`);
+  return translations;
+};
+
+export const clearTranslations = async (videoId: string): Promise<void> => {
+  await Promise.all(
+    TRANSLATION_LANGUAGES.map(language => removeItem(getTranslationsKey(videoId, language.code)))
+  );
+};
@@ -1,5 +1,6 @@
 import { Audio } from 'expo-av';
 import { API_CONFIG } from '../config/api';
+import { authFetch } from './apiClient';
 import * as FileSystem from 'expo-file-system';
 
 export interface TTSOptions {
@@ -18,24 +19,8 @@ class TTSService {
       // Stop any currently playing TTS (don't await for faster response)
       this.stop(); // Execute in parallel
 
-      const response = await fetch(`${API_CONFIG.BASE_URL}/tts/speak`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text,
-          voice: options.voice || 'nova',
-          speed: options.speed || 1.0,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`TTS API error: ${response.status}`);
-      }
-
       // Save response to temporary file
-      const audioArrayBuffer = await response.arrayBuffer();
+      const audioArrayBuffer = await this.generateWithOpenAI(text, options);
       const uint8Array = new Uint8Array(audioArrayBuffer);
       
       // Convert to base64 for React Native
@@ -80,6 +65,27 @@ class TTSService {
     }
   }
 
+  // Generate OpenAI speech without playing it (MP3 bytes)
+  async generateWithOpenAI(text: string, options: TTSOptions = {}): Promise<ArrayBuffer> {
+    const response = await authFetch(`${API_CONFIG.BASE_URL}/tts/speak`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        text,
+        voice: options.voice || 'nova',
+        speed: options.speed || 1.0,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`TTS API error: ${response.status}`);
+    }
+
+    return response.arrayBuffer();
+  }
+
   async speakWithExpoSpeech(text: string): Promise<void> {
     const Speech = require('expo-speech');
     this.isPlaying = true;
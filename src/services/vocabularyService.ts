@@ -0,0 +1,55 @@
+import { getItem, setItem } from './storageService';
+
+// Where a word was found, so the exact clip can be replayed later
+export interface VocabularySource {
+  sentence: string;
+  videoId: string;
+  videoTitle: string;
+  start: number;
+  end: number;
+}
+
+export interface VocabularyWord extends VocabularySource {
+  id: string;
+  word: string;
+  definition: string;
+  partOfSpeech?: string;
+  phonetic?: string;
+  savedAt: string;
+}
+
+export type NewVocabularyWord = Omit<VocabularyWord, 'id' | 'savedAt'>;
+
+const VOCABULARY_KEY = 'vocabulary:words';
+
+const getWordId = (word: string, videoId: string, start: number) =>
+  `${word.toLowerCase()}@${videoId}@${start.toFixed(2)}`;
+
+// Get saved words, newest first
+export const getVocabulary = async (): Promise<VocabularyWord[]> => {
+  return (await getItem<VocabularyWord[]>(VOCABULARY_KEY)) || [];
+};
+
+// Save a word with its source sentence. Saving the same word from the same sentence again updates it.
+export const saveWord = async (word: NewVocabularyWord): Promise<VocabularyWord> => {
+  const words = await getVocabulary();
+  const saved: VocabularyWord = {
+    ...word,
+    id: getWordId(word.word, word.videoId, word.start),
+    savedAt: new Date().toISOString(),
+  };
+
+  await setItem(VOCABULARY_KEY, [saved, ...words.filter(w => w.id !== saved.id)]);
+  console.log(`📚 Saved "${saved.word}" to vocabulary`);
+  return saved;
+};
+
+export const deleteWord = async (id: string): Promise<void> => {
+  const words = await getVocabulary();
+  await setItem(VOCABULARY_KEY, words.filter(w => w.id !== id));
+};
+
+export const isWordSaved = async (word: string, videoId: string, start: number): Promise<boolean> => {
+  const id = getWordId(word, videoId, start);
+  return (await getVocabulary()).some(w => w.id === id);
+};
@@ -1,6 +1,10 @@
 import { API_CONFIG } from '../config/api';
+import { authFetch } from './apiClient';
 import { Platform } from 'react-native';
 import * as FileSystem from 'expo-file-system';
+import { getItem, setItem, removeItem } from './storageService';
+import { getCachedTranscript, saveCachedTranscript, hashSentences, CachedTranscript } from './transcriptCacheService';
+import { parseSubtitles } from './transcriptFormatService';
 
 // Debug: Print API configuration on load
 console.log('🔧 Whisper Service - API_CONFIG.BASE_URL:', API_CONFIG.BASE_URL);
@@ -9,7 +13,7 @@ console.log('🔧 Whisper Service - API_CONFIG.BASE_URL:', API_CONFIG.BASE_URL);
 export const testConnection = async (): Promise<boolean> => {
   try {
     console.log('🧪 Testing connection to:', `${API_CONFIG.BASE_URL}/health`);
-    const response = await fetch(`${API_CONFIG.BASE_URL}/health`);
+    const response = await authFetch(`${API_CONFIG.BASE_URL}/health`);
     console.log('🧪 Connection test response status:', response.status);
     const data = await response.json();
     console.log('🧪 Connection test data:', data);
@@ -53,61 +57,32 @@ export interface ProcessedSentence {
   end: number;
   duration: number;
   words?: WhisperWord[];
+  originalStart?: number; // Start before the learner retimed the sentence (see transcriptEditService)
 }
 
+// Where a transcript came from - 'imported' is a subtitle file the learner picked
+export type TranscriptSource = 'youtube' | 'whisper' | 'imported' | 'tts';
+
 export interface TranscriptResult {
   success: boolean;
-  source: 'youtube' | 'whisper';
+  source: TranscriptSource;
   sentences: ProcessedSentence[];
   transcription?: string;
   duration?: number;
+  fetchedAt?: string; // When the transcript was fetched from the server
 }
 
-// In-memory cache for source preferences (stores which method worked for each video)
-const sourceCache = new Map<string, 'youtube' | 'whisper'>();
-
-// Get transcript data - smart caching with source preference
-export const getTranscriptData = async (videoId: string): Promise<TranscriptResult> => {
+// Fetch transcript from the server - YouTube subtitles first, then Whisper
+const fetchTranscript = async (videoId: string): Promise<TranscriptResult> => {
   try {
     console.log('🔍 Getting transcript for video:', videoId);
 
-    // Check if we know which source worked before
-    const preferredSource = sourceCache.get(videoId);
-    
-    if (preferredSource === 'whisper') {
-      // We know YouTube subtitles don't exist, check Whisper cache directly
-      console.log('🎯 Previous source was Whisper, checking cache directly...');
-      try {
-        const whisperResult = await transcribeWithWhisper(videoId);
-        return whisperResult;
-      } catch (error) {
-        console.log('⚠️ Whisper failed, trying YouTube subtitles as backup...');
-        console.error('Whisper error details:', error instanceof Error ? error.message : 'Unknown error');
-        // Fall through to YouTube subtitles
-      }
-    } else if (preferredSource === 'youtube') {
-      // We know YouTube subtitles worked before, try them first
-      console.log('⚡ Previous source was YouTube, trying subtitles first...');
-      try {
-        const youtubeResult = await getYouTubeSubtitles(videoId, true);
-        if (youtubeResult.success && youtubeResult.sentences.length > 0) {
-          console.log('✅ YouTube subtitles found (cached preference):', youtubeResult.sentences.length, 'sentences');
-          return youtubeResult;
-        }
-      } catch (error) {
-        console.log('⚠️ YouTube subtitles failed, trying Whisper cache...');
-        // Fall through to Whisper
-      }
-    }
-
-    // 1. Try YouTube subtitles (either first time or preferred source)
+    // 1. Try YouTube subtitles
     try {
       console.log('📺 Trying YouTube subtitles...');
       const youtubeResult = await getYouTubeSubtitles(videoId, true);
       if (youtubeResult.success && youtubeResult.sentences.length > 0) {
         console.log('✅ YouTube subtitles found:', youtubeResult.sentences.length, 'sentences');
-        // Remember this worked
-        sourceCache.set(videoId, 'youtube');
         return youtubeResult;
       }
     } catch (error) {
@@ -118,9 +93,6 @@ export const getTranscriptData = async (videoId: string): Promise<TranscriptResu
     console.log('🎤 Falling back to Whisper AI...');
     try {
       const whisperResult = await transcribeWithWhisper(videoId);
-      
-      // Remember that Whisper worked for this video
-      sourceCache.set(videoId, 'whisper');
       return whisperResult;
     } catch (whisperError) {
       console.error('🚨 Both YouTube and Whisper failed!');
@@ -141,12 +113,122 @@ export const getTranscriptData = async (videoId: string): Promise<TranscriptResu
   }
 };
 
+// Check the server copy of a cached transcript without triggering a new Whisper transcription
+const revalidateTranscript = async (
+  videoId: string,
+  cached: CachedTranscript,
+  onUpdated?: (result: TranscriptResult) => void
+): Promise<void> => {
+  try {
+    const result = cached.source === 'whisper'
+      ? await getWhisperFromCache(videoId)
+      : await getYouTubeSubtitles(videoId, true);
+
+    if (!result || !result.success || result.sentences.length === 0) {
+      console.log('⚠️ Transcript revalidation returned nothing, keeping cached copy');
+      return;
+    }
+
+    await saveCachedTranscript(videoId, result.source, result.sentences);
+
+    if (hashSentences(result.sentences) !== cached.contentHash) {
+      console.log('🔄 Transcript changed on the server, updating cached copy');
+      onUpdated?.(result);
+    } else {
+      console.log('✅ Cached transcript is up to date');
+    }
+  } catch (error) {
+    console.log('⚠️ Transcript revalidation failed:', error instanceof Error ? error.message : 'Unknown error');
+  }
+};
+
+// Get transcript data - served instantly from the on-device cache when available,
+// then revalidated against the server in the background (onUpdated fires if it changed)
+export const getTranscriptData = async (
+  videoId: string,
+  onUpdated?: (result: TranscriptResult) => void
+): Promise<TranscriptResult> => {
+  // An imported subtitle file replaces the server transcript, so there's nothing to revalidate
+  const imported = await getImportedTranscript(videoId);
+  if (imported && imported.sentences.length > 0) {
+    console.log(`📥 Using imported subtitles (imported ${imported.importedAt})`);
+    return {
+      success: true,
+      source: 'imported',
+      sentences: imported.sentences,
+      fetchedAt: imported.importedAt,
+    };
+  }
+
+  const cached = await getCachedTranscript(videoId);
+
+  if (cached && cached.sentences.length > 0) {
+    console.log(`⚡ Transcript served from device cache (${cached.source}, fetched ${cached.fetchedAt})`);
+    revalidateTranscript(videoId, cached, onUpdated);
+    return {
+      success: true,
+      source: cached.source,
+      sentences: cached.sentences,
+      fetchedAt: cached.fetchedAt,
+    };
+  }
+
+  const result = await fetchTranscript(videoId);
+
+  try {
+    const entry = await saveCachedTranscript(videoId, result.source, result.sentences);
+    return { ...result, fetchedAt: entry.fetchedAt };
+  } catch (error) {
+    console.error('⚠️ Failed to cache transcript:', error);
+    return result;
+  }
+};
+
+// Imported subtitles are the learner's own file, not a copy of server data, so they are kept
+// outside the transcript cache - clearing the cache or deleting history leaves them alone
+export interface ImportedTranscript {
+  videoId: string;
+  sentences: ProcessedSentence[];
+  importedAt: string;
+}
+
+const getImportedTranscriptKey = (videoId: string) => `imported-transcript:${videoId}`;
+
+export const getImportedTranscript = async (videoId: string): Promise<ImportedTranscript | null> => {
+  return getItem<ImportedTranscript>(getImportedTranscriptKey(videoId));
+};
+
+export const removeImportedTranscript = async (videoId: string): Promise<void> => {
+  await removeItem(getImportedTranscriptKey(videoId));
+};
+
+// Use an .srt/.vtt file as the video's transcript. Cues are joined into sentences
+// the same way YouTube subtitles are, then stored as the video's transcript.
+export const importSubtitleFile = async (videoId: string, content: string): Promise<TranscriptResult> => {
+  const cues = parseSubtitles(content);
+  if (cues.length === 0) {
+    throw new Error('No subtitles found. Please choose a valid .srt or .vtt file.');
+  }
+
+  const sentences = processYouTubeSubtitles(cues);
+  const entry: ImportedTranscript = { videoId, sentences, importedAt: new Date().toISOString() };
+  await setItem(getImportedTranscriptKey(videoId), entry);
+  console.log(`📥 Imported ${cues.length} subtitle cues as ${sentences.length} sentences for`, videoId);
+
+  return {
+    success: true,
+    source: 'imported',
+    sentences,
+    fetchedAt: entry.importedAt,
+  };
+};
+
 // Get YouTube subtitles
 export const getYouTubeSubtitles = async (videoId: string, useSpacy: boolean = true): Promise<TranscriptResult> => {
   try {
     const url = `${API_CONFIG.BASE_URL}/whisper/youtube-subtitles/${videoId}${useSpacy ? '?useSpacy=true' : '?useSpacy=false'}`;
     console.log('🌐 Attempting YouTube subtitles request to:', url);
-    const response = await fetch(url);
+    const response = await authFetch(url);
     console.log('📡 YouTube subtitles response status:', response.status);
     const data = await response.json();
 
@@ -174,7 +256,7 @@ export const extractAudio = async (videoId: string): Promise<string> => {
     console.log('🎵 Extracting audio for video:', videoId);
     
     // Get audio URL from existing YouTube service
-    const response = await fetch(`${API_CONFIG.BASE_URL}/youtube/audio/${videoId}`);
+    const response = await authFetch(`${API_CONFIG.BASE_URL}/youtube/audio/${videoId}`);
     const data = await response.json();
 
     if (!data.audioUrl) {
@@ -223,7 +305,7 @@ export const getWhisperFromCache = async (videoId: string): Promise<TranscriptRe
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
     
-    const cacheResponse = await fetch(`${API_CONFIG.BASE_URL}/whisper/cached/${videoId}`, {
+    const cacheResponse = await authFetch(`${API_CONFIG.BASE_URL}/whisper/cached/${videoId}`, {
       signal: controller.signal
     });
     
@@ -258,6 +340,44 @@ export const getWhisperFromCache = async (videoId: string): Promise<TranscriptRe
   }
 };
 
+// Upload audio form data to the Whisper API and read back the sentences
+const uploadToWhisper = async (formData: FormData): Promise<TranscriptResult> => {
+  console.log('📤 Uploading audio to Whisper API...');
+  console.log('📄 Platform:', Platform.OS);
+  
+  const response = await authFetch(`${API_CONFIG.BASE_URL}/whisper/transcribe`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.log('❌ Whisper API error response:', errorText);
+    console.log('📍 Response status:', response.status);
+    console.log('🌐 Request URL was:', `${API_CONFIG.BASE_URL}/whisper/transcribe`);
+    try {
+      const errorData = JSON.parse(errorText);
+      throw new Error(errorData.error || 'Whisper API error');
+    } catch {
+      throw new Error(`Whisper API error: ${response.status} - ${errorText.substring(0, 200)}`);
+    }
+  }
+
+  const data = await response.json();
+
+  console.log('✅ Whisper transcription completed');
+  console.log('📊 Found sentences:', data.sentences?.length || 0);
+  console.log('⏱️ Duration:', data.duration, 'seconds');
+
+  return {
+    success: true,
+    source: 'whisper',
+    sentences: data.sentences || [],
+    transcription: data.transcription,
+    duration: data.duration
+  };
+};
+
 // Transcribe audio with Whisper AI (with caching)
 export const transcribeWithWhisper = async (videoId: string): Promise<TranscriptResult> => {
   try {
@@ -300,46 +420,14 @@ export const transcribeWithWhisper = async (videoId: string): Promise<Transcript
       formData.append('videoId', videoId);
     }
 
-    console.log('📤 Uploading audio to Whisper API...');
-    console.log('📄 Platform:', Platform.OS);
-    
-    // Upload to Whisper API
-    const response = await fetch(`${API_CONFIG.BASE_URL}/whisper/transcribe`, {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.log('❌ Whisper API error response:', errorText);
-      console.log('📍 Response status:', response.status);
-      console.log('🌐 Request URL was:', `${API_CONFIG.BASE_URL}/whisper/transcribe`);
-      try {
-        const errorData = JSON.parse(errorText);
-        throw new Error(errorData.error || 'Whisper API error');
-      } catch {
-        throw new Error(`Whisper API error: ${response.status} - ${errorText.substring(0, 200)}`);
-      }
-    }
-
-    const data = await response.json();
+    const result = await uploadToWhisper(formData);
     
     // Clean up downloaded audio file (only for native platforms)
     if (Platform.OS !== 'web') {
       await FileSystem.deleteAsync(audioUri, { idempotent: true });
     }
 
-    console.log('✅ Whisper transcription completed');
-    console.log('📊 Found sentences:', data.sentences?.length || 0);
-    console.log('⏱️ Duration:', data.duration, 'seconds');
-
-    return {
-      success: true,
-      source: 'whisper',
-      sentences: data.sentences || [],
-      transcription: data.transcription,
-      duration: data.duration
-    };
+    return result;
 
   } catch (error) {
     console.error('❌ Whisper transcription error:', error);
@@ -347,6 +435,55 @@ export const transcribeWithWhisper = async (videoId: string): Promise<Transcript
   }
 };
 
+// A learner's own audio/video file to transcribe (see mediaSourceService)
+export interface LocalMediaUpload {
+  uri: string;
+  name: string;
+  mimeType: string;
+  file?: Blob; // Web only - the picked file itself
+}
+
+// Transcribe a local file through the Whisper upload path.
+// The result is stored on the device like any other transcript, so it is only transcribed once.
+export const transcribeLocalFile = async (mediaId: string, upload: LocalMediaUpload): Promise<TranscriptResult> => {
+  try {
+    const cached = await getCachedTranscript(mediaId);
+    if (cached && cached.sentences.length > 0) {
+      console.log('⚡ Local file transcript served from device cache');
+      return {
+        success: true,
+        source: cached.source,
+        sentences: cached.sentences,
+        fetchedAt: cached.fetchedAt,
+      };
+    }
+
+    console.log('🎤 Starting Whisper transcription for local file:', upload.name);
+
+    const formData = new FormData();
+    if (Platform.OS === 'web') {
+      if (!upload.file) {
+        throw new Error('The file is no longer available. Please pick it again.');
+      }
+      formData.append('audio', upload.file, upload.name);
+    } else {
+      formData.append('audio', {
+        uri: upload.uri,
+        type: upload.mimeType,
+        name: upload.name
+      } as any);
+    }
+    formData.append('videoId', mediaId);
+
+    const result = await uploadToWhisper(formData);
+    const entry = await saveCachedTranscript(mediaId, result.source, result.sentences);
+    return { ...result, fetchedAt: entry.fetchedAt };
+  } catch (error) {
+    console.error('❌ Local file transcription error:', error);
+    throw new Error('Whisper transcription failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+  }
+};
+
 // Process YouTube subtitles (legacy function for compatibility)
 export const processYouTubeSubtitles = (subtitles: any[]): ProcessedSentence[] => {
   const sentences: ProcessedSentence[] = [];
@@ -399,4 +536,43 @@ export const processWhisperResult = (whisperData: WhisperTranscription): Process
     duration: segment.end - segment.start,
     words: segment.words
   }));
-}; 
\ No newline at end of file
+};
+
+// Get per-word timings for a sentence.
+// Uses Whisper word timings when available, otherwise spreads the sentence duration
+// across its words in proportion to their length (YouTube subtitles only have sentence timing).
+export const getWordTimings = (sentence: { text: string; start: number; end: number; words?: WhisperWord[] }): WhisperWord[] => {
+  const whisperWords = (sentence.words || [])
+    .map(word => ({ ...word, word: word.word.trim() }))
+    .filter(word => word.word.length > 0);
+
+  if (whisperWords.length > 0) {
+    return whisperWords;
+  }
+
+  const tokens = sentence.text.split(/\s+/).filter(token => token.length > 0);
+  const totalChars = tokens.reduce((sum, token) => sum + token.length, 0);
+  const duration = Math.max(sentence.end - sentence.start, 0);
+
+  let cursor = sentence.start;
+  return tokens.map(token => {
+    const wordDuration = totalChars > 0 ? (token.length / totalChars) * duration : 0;
+    const timing = { word: token, start: cursor, end: cursor + wordDuration };
+    cursor += wordDuration;
+    return timing;
+  });
+};
+
+// Find the word being spoken at a playback position (-1 before the first word).
+// Gaps between words keep the previous word highlighted.
+export const getActiveWordIndex = (timings: WhisperWord[], timeInSeconds: number): number => {
+  let activeIndex = -1;
+  for (let i = 0; i < timings.length; i++) {
+    if (timings[i].start <= timeInSeconds) {
+      activeIndex = i;
+    } else {
+      break;
+    }
+  }
+  return activeIndex;
+};
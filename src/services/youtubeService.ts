@@ -1,5 +1,7 @@
 import axios from 'axios';
 import { API_CONFIG, YOUTUBE_CONFIG } from '../config/api';
+import { withAuth } from './apiClient';
+import type { WhisperWord } from './whisperService';
 
 export interface Video {
   id: string;
@@ -8,6 +10,40 @@ export interface Video {
   thumbnail: string;
   channelTitle: string;
   publishedAt: string;
+  duration?: string;
+  durationSeconds?: number;
+  viewCount?: number;
+  captionType?: 'manual' | 'auto'; // Human-written or auto-generated English captions
+}
+
+// Search filters - 'any' (and 'relevance') leave the backend defaults in place
+export interface SearchFilters {
+  duration: 'any' | 'short' | 'medium'; // Under 4 min / 4-10 min (longer videos are filtered server-side)
+  captions: 'any' | 'manual' | 'auto';
+  uploadDate: 'any' | 'week' | 'month' | 'year';
+  region: 'any' | 'US' | 'GB' | 'AU' | 'CA' | 'IN'; // Accent, via the channel's region
+  order: 'relevance' | 'date' | 'viewCount' | 'rating';
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  duration: 'any',
+  captions: 'any',
+  uploadDate: 'any',
+  region: 'any',
+  order: 'relevance',
+};
+
+export interface SearchPage {
+  videos: Video[];
+  nextPageToken?: string; // Absent on the last page
+}
+
+export interface PlaylistDetails {
+  id: string;
+  title: string;
+  description: string;
+  channelTitle: string;
+  videos: Video[]; // In playlist order, long videos included
 }
 
 export interface VideoDetails {
@@ -42,6 +78,8 @@ export interface PracticeSentence {
   duration: number;
   originalWords?: string; // Original transcript words for comparison
   correctedWords?: string; // AI-corrected words for comparison
+  words?: WhisperWord[]; // Word-level timings (Whisper transcripts only)
+  originalStart?: number; // Start before the learner retimed the sentence
 }
 
 export interface PracticeTranscriptResponse {
@@ -63,28 +101,62 @@ export interface AudioInfo {
   source?: 'local' | 's3' | 'stream';
 }
 
-// Create axios instance with configuration
-const apiClient = axios.create({
+// Create axios instance with configuration (sends the signed-in user's token)
+const apiClient = withAuth(axios.create({
   baseURL: API_CONFIG.BASE_URL,
   timeout: API_CONFIG.TIMEOUT,
-});
+}));
 
-// Search YouTube videos
-export const searchVideos = async (query: string): Promise<Video[]> => {
+// Search YouTube videos. Pass the previous page's nextPageToken to load more results.
+export const searchVideos = async (
+  query: string,
+  filters: SearchFilters = DEFAULT_SEARCH_FILTERS,
+  pageToken?: string
+): Promise<SearchPage> => {
   try {
-    const response = await apiClient.get('/youtube/search', {
-      params: { 
-        query, 
-        maxResults: YOUTUBE_CONFIG.MAX_SEARCH_RESULTS 
-      }
-    });
-    return response.data.videos;
+    const params: Record<string, string | number> = {
+      query,
+      maxResults: YOUTUBE_CONFIG.MAX_SEARCH_RESULTS,
+      order: filters.order,
+    };
+    if (filters.duration !== 'any') params.duration = filters.duration;
+    if (filters.captions !== 'any') params.captions = filters.captions;
+    if (filters.uploadDate !== 'any') params.uploadDate = filters.uploadDate;
+    if (filters.region !== 'any') params.regionCode = filters.region;
+    if (pageToken) params.pageToken = pageToken;
+
+    const response = await apiClient.get('/youtube/search', { params });
+    return {
+      videos: response.data.videos,
+      nextPageToken: response.data.nextPageToken || undefined,
+    };
   } catch (error) {
     console.error('Error searching videos:', error);
     throw new Error('Failed to search videos');
   }
 };
 
+// Pull the playlist id out of a YouTube link (a bare playlist id works too)
+export const extractPlaylistId = (input: string): string | null => {
+  const trimmed = input.trim();
+  const match = trimmed.match(/[?&]list=([\w-]+)/);
+  if (match) {
+    return match[1];
+  }
+  return /^(PL|OL|UU|FL)[\w-]{10,}$/.test(trimmed) ? trimmed : null;
+};
+
+// Get a playlist and its videos
+export const getPlaylist = async (playlistId: string): Promise<PlaylistDetails> => {
+  try {
+    const response = await apiClient.get(`/youtube/playlist/${playlistId}`);
+    return response.data.playlist;
+  } catch (error) {
+    console.error('Error getting playlist:', error);
+    throw new Error('Failed to get playlist');
+  }
+};
+
 // Get video details
 export const getVideoDetails = async (videoId: string): Promise<VideoDetails> => {
   try {